@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtimeConnection } from "@/hooks/useRealtime";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
@@ -13,9 +14,17 @@ import StyleScore from "@/pages/style-score";
 import Sustainability from "@/pages/sustainability";
 import Rent from "@/pages/rent";
 import PostView from "@/pages/post-view";
+import RentalInbox from "@/pages/rental-inbox";
+import RentalDetail from "@/pages/rental-detail";
+import AdminDisputes from "@/pages/admin-disputes";
+import TagPage from "@/pages/tag";
+import Notifications from "@/pages/notifications";
+import Messages from "@/pages/messages";
+import Conversation from "@/pages/conversation";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
+  useRealtimeConnection(isAuthenticated);
 
   return (
     <Switch>
@@ -25,11 +34,21 @@ function Router() {
         <>
           <Route path="/" component={Home} />
           <Route path="/profile" component={Profile} />
+          <Route path="/users/:id" component={Profile} />
+          <Route path="/u/:username" component={Profile} />
           <Route path="/post" component={Post} />
+          <Route path="/drafts/:id" component={Post} />
           <Route path="/style-score" component={StyleScore} />
           <Route path="/sustainability" component={Sustainability} />
           <Route path="/rent" component={Rent} />
+          <Route path="/rent/inbox" component={RentalInbox} />
+          <Route path="/rentals/:id" component={RentalDetail} />
+          <Route path="/admin/disputes" component={AdminDisputes} />
           <Route path="/post/:id" component={PostView} />
+          <Route path="/tags/:tag" component={TagPage} />
+          <Route path="/notifications" component={Notifications} />
+          <Route path="/messages" component={Messages} />
+          <Route path="/messages/:id" component={Conversation} />
         </>
       )}
       <Route component={NotFound} />
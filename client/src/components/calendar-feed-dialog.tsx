@@ -0,0 +1,135 @@
+import { useState, type ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+export default function CalendarFeedDialog({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const { data: feed } = useQuery<{ token: string | null }>({
+    queryKey: ["/api/calendar/token"],
+    enabled: open,
+  });
+
+  const onError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: "Failed to update calendar feed",
+      variant: "destructive",
+    });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/token");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/token"] });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/calendar/token");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Feed turned off",
+        description: "Calendars subscribed to the old link will stop updating.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar/token"] });
+    },
+    onError,
+  });
+
+  const feedUrl = feed?.token ? `${window.location.origin}/api/calendar/${feed.token}.ics` : null;
+
+  const copyLink = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: "Copied", description: "Paste the link into your calendar app." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Rental Calendar</DialogTitle>
+          <DialogDescription>
+            Subscribe to this private link in your phone's calendar to see pickups and returns for everything you
+            rent or lend. Anyone with the link can see your rentals.
+          </DialogDescription>
+        </DialogHeader>
+
+        {feedUrl ? (
+          <div className="space-y-3">
+            <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+            <div className="flex space-x-2">
+              <Button className="flex-1 bg-eco-primary hover:bg-eco-primary/90" onClick={copyLink}>
+                Copy Link
+              </Button>
+              <Button variant="outline" className="flex-1" asChild>
+                <a href={feedUrl.replace(/^https?:/, "webcal:")}>Subscribe</a>
+              </Button>
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => generateMutation.mutate()}
+                disabled={generateMutation.isPending}
+              >
+                New Link
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 text-red-600"
+                onClick={() => revokeMutation.mutate()}
+                disabled={revokeMutation.isPending}
+              >
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            className="w-full bg-eco-primary hover:bg-eco-primary/90"
+            onClick={() => generateMutation.mutate()}
+            disabled={generateMutation.isPending}
+          >
+            {generateMutation.isPending ? "Creating..." : "Create Calendar Link"}
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
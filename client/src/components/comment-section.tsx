@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { displayName, profilePath } from "@/lib/users";
+import RichText from "@/components/rich-text";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { formatDistanceToNow } from "date-fns";
+import { COMMENT_EDIT_WINDOW_MINUTES, type CommentThread, type CommentWithUser } from "@shared/schema";
+
+interface CommentSectionProps {
+  postId: string;
+  postOwnerId: string;
+}
+
+function canStillEdit(comment: CommentWithUser): boolean {
+  if (!comment.createdAt) return false;
+  const editableUntil = new Date(comment.createdAt).getTime() + COMMENT_EDIT_WINDOW_MINUTES * 60 * 1000;
+  return Date.now() < editableUntil;
+}
+
+export default function CommentSection({ postId, postOwnerId }: CommentSectionProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [content, setContent] = useState("");
+  const [replyTo, setReplyTo] = useState<CommentWithUser | null>(null);
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
+
+  const { data: threads } = useQuery<CommentThread[]>({
+    queryKey: ["/api/posts", postId, "comments"],
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message.startsWith("409")
+        ? `Comments can only be edited for ${COMMENT_EDIT_WINDOW_MINUTES} minutes`
+        : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/posts", postId, "comments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/posts", postId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/feed/following"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/posts/${postId}/comments`, {
+        content,
+        parentId: replyTo?.id,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setContent("");
+      setReplyTo(null);
+      refresh();
+    },
+    onError: onError("Failed to post comment"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: string; content: string }) => {
+      const response = await apiRequest("PATCH", `/api/comments/${id}`, { content });
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditing(null);
+      refresh();
+    },
+    onError: onError("Failed to update comment"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/comments/${id}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to delete comment"),
+  });
+
+  const renderComment = (comment: CommentWithUser, isReply: boolean) => {
+    const isAuthor = comment.userId === user?.id;
+    const canDelete = isAuthor || postOwnerId === user?.id;
+
+    if (comment.deletedAt) {
+      return <p className="text-sm italic text-gray-400">Comment deleted</p>;
+    }
+
+    return (
+      <div className="flex items-start space-x-3">
+        <Link href={profilePath(comment.user)}>
+          <Avatar className={isReply ? "w-6 h-6" : "w-8 h-8"}>
+            <AvatarImage src={comment.user.profileImageUrl || ""} />
+            <AvatarFallback className="text-xs">
+              {comment.user.firstName?.[0] || comment.user.username?.[0] || "U"}
+            </AvatarFallback>
+          </Avatar>
+        </Link>
+        <div className="flex-1 min-w-0">
+          {editing?.id === comment.id ? (
+            <form
+              className="flex space-x-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                updateMutation.mutate(editing);
+              }}
+            >
+              <Input
+                value={editing.content}
+                onChange={(e) => setEditing({ id: comment.id, content: e.target.value })}
+                className="h-8 text-sm"
+                autoFocus
+              />
+              <Button type="submit" size="sm" disabled={!editing.content.trim() || updateMutation.isPending}>
+                Save
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+            </form>
+          ) : (
+            <p className="text-sm text-gray-900 break-words">
+              <Link href={profilePath(comment.user)} className="font-semibold mr-2">
+                {displayName(comment.user)}
+              </Link>
+              <RichText text={comment.content} />
+            </p>
+          )}
+          <div className="flex items-center space-x-3 mt-1 text-xs text-gray-500">
+            {comment.createdAt && <span>{formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}</span>}
+            {comment.editedAt && <span>(edited)</span>}
+            {user && (
+              <button type="button" className="font-medium" onClick={() => setReplyTo(comment)}>
+                Reply
+              </button>
+            )}
+            {isAuthor && canStillEdit(comment) && (
+              <button
+                type="button"
+                className="font-medium"
+                onClick={() => setEditing({ id: comment.id, content: comment.content })}
+              >
+                Edit
+              </button>
+            )}
+            {canDelete && (
+              <button
+                type="button"
+                className="font-medium text-red-600"
+                onClick={() => deleteMutation.mutate(comment.id)}
+                disabled={deleteMutation.isPending}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4">
+      {threads && threads.length > 0 && (
+        <div className="space-y-4 mb-4">
+          {threads.map((thread) => (
+            <div key={thread.id}>
+              {renderComment(thread, false)}
+              {thread.replies.length > 0 && (
+                <div className="ml-11 mt-3 space-y-3">
+                  {thread.replies.map((reply) => (
+                    <div key={reply.id}>{renderComment(reply, true)}</div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {user && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          {replyTo && (
+            <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+              <span>Replying to {displayName(replyTo.user)}</span>
+              <button type="button" onClick={() => setReplyTo(null)}>
+                Cancel
+              </button>
+            </div>
+          )}
+          <div className="flex space-x-2">
+            <Input
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder={replyTo ? "Write a reply..." : "Add a comment..."}
+              maxLength={1000}
+            />
+            <Button
+              type="submit"
+              className="bg-eco-primary hover:bg-eco-primary/90"
+              disabled={!content.trim() || createMutation.isPending}
+            >
+              Post
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
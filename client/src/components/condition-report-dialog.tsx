@@ -0,0 +1,174 @@
+import { useState, type ReactNode } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Camera } from "lucide-react";
+import { conditionChecklistItems, type ConditionReportStage } from "@shared/schema";
+
+export const checklistLabels: Record<(typeof conditionChecklistItems)[number], string> = {
+  stains: "Stains",
+  tears: "Tears or holes",
+  missing_buttons: "Missing buttons",
+  broken_zipper: "Broken zipper",
+  odor: "Odor",
+  pilling: "Pilling",
+  loose_seams: "Loose seams",
+};
+
+export const stageLabels: Record<ConditionReportStage, string> = {
+  check_out: "Pickup",
+  check_in: "Return",
+};
+
+interface ConditionReportDialogProps {
+  rentalId: string;
+  stage: ConditionReportStage;
+  children: ReactNode;
+}
+
+export default function ConditionReportDialog({ rentalId, stage, children }: ConditionReportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [notes, setNotes] = useState("");
+  const [photos, setPhotos] = useState<File[]>([]);
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const submitData = new FormData();
+      submitData.append("stage", stage);
+      submitData.append("issues", issues.join(","));
+      submitData.append("notes", notes);
+      photos.forEach((photo) => submitData.append("photos", photo));
+
+      const response = await fetch(`/api/rentals/${rentalId}/condition-reports`, {
+        method: "POST",
+        body: submitData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`${response.status}: ${error}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Report saved",
+        description: `Your ${stageLabels[stage].toLowerCase()} condition report has been filed.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/rentals", rentalId, "condition-reports"] });
+      setOpen(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save condition report",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleIssue = (issue: string, checked: boolean) => {
+    setIssues(checked ? [...issues, issue] : issues.filter((i) => i !== issue));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{stageLabels[stage]} Condition Report</DialogTitle>
+          <DialogDescription>
+            Tick anything you notice and add photos. Leave everything unticked if the item is in perfect shape.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {conditionChecklistItems.map((item) => (
+              <div key={item} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`issue-${item}`}
+                  checked={issues.includes(item)}
+                  onCheckedChange={(checked) => toggleIssue(item, !!checked)}
+                />
+                <Label htmlFor={`issue-${item}`} className="text-sm">
+                  {checklistLabels[item]}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <Label htmlFor="condition-notes">Notes</Label>
+            <Textarea
+              id="condition-notes"
+              placeholder="Where is the mark? How big is it?"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div>
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, 6))}
+              className="hidden"
+              id={`condition-photos-${stage}`}
+            />
+            <label
+              htmlFor={`condition-photos-${stage}`}
+              className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center cursor-pointer hover:border-eco-primary transition-colors block"
+            >
+              <Camera className="text-gray-400 mb-1 mx-auto" />
+              <p className="text-sm text-gray-500">
+                {photos.length > 0 ? `${photos.length} photo${photos.length > 1 ? "s" : ""} selected` : "Add up to 6 photos"}
+              </p>
+            </label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            className="w-full bg-eco-primary hover:bg-eco-primary/90"
+            onClick={() => reportMutation.mutate()}
+            disabled={reportMutation.isPending}
+          >
+            {reportMutation.isPending ? "Saving..." : "Save Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState, type ReactNode } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Camera } from "lucide-react";
+import { disputeKinds, type DisputeKind, type RentalConditionReport } from "@shared/schema";
+
+export const disputeKindLabels: Record<DisputeKind, string> = {
+  damage: "Damage",
+  late_return: "Late return",
+  no_show: "No-show",
+  not_as_described: "Item not as described",
+};
+
+interface DisputeDialogProps {
+  rentalId: string;
+  reports: RentalConditionReport[];
+  children: ReactNode;
+}
+
+const reportLabel = (report: RentalConditionReport) =>
+  `${report.reporterRole === "owner" ? "Owner's" : "Renter's"} report (${report.issues?.length || 0} issues)`;
+
+export default function DisputeDialog({ rentalId, reports, children }: DisputeDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const checkOutReports = reports.filter((report) => report.stage === "check_out");
+  const checkInReports = reports.filter((report) => report.stage === "check_in");
+
+  const canClaimDamage = checkOutReports.length > 0 && checkInReports.length > 0;
+
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<DisputeKind>(canClaimDamage ? "damage" : "late_return");
+  const [evidence, setEvidence] = useState<File[]>([]);
+  const [checkOutReportId, setCheckOutReportId] = useState(checkOutReports[0]?.id ?? "");
+  const [checkInReportId, setCheckInReportId] = useState(checkInReports[0]?.id ?? "");
+  const [description, setDescription] = useState("");
+
+  const claimMutation = useMutation({
+    mutationFn: async () => {
+      const submitData = new FormData();
+      submitData.append("kind", kind);
+      submitData.append("description", description);
+      if (kind === "damage") {
+        submitData.append("checkOutReportId", checkOutReportId);
+        submitData.append("checkInReportId", checkInReportId);
+      }
+      evidence.forEach((file) => submitData.append("evidence", file));
+
+      const response = await fetch(`/api/rentals/${rentalId}/disputes`, {
+        method: "POST",
+        body: submitData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`${response.status}: ${error}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Claim opened",
+        description: "The other member has been asked to respond.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/rentals", rentalId, "disputes"] });
+      setDescription("");
+      setEvidence([]);
+      setOpen(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to open claim",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Open a Claim</DialogTitle>
+          <DialogDescription>
+            Tell us what went wrong. The other member can respond before an admin decides.
+            The rental is paused until the claim is resolved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="mb-1 block">Problem</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as DisputeKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {disputeKinds
+                  .filter((k) => k !== "damage" || canClaimDamage)
+                  .map((k) => (
+                    <SelectItem key={k} value={k}>
+                      {disputeKindLabels[k]}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {kind === "damage" && (
+            <div className="space-y-4">
+              <div>
+                <Label className="mb-1 block">Pickup report</Label>
+                <Select value={checkOutReportId} onValueChange={setCheckOutReportId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a report" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {checkOutReports.map((report) => (
+                      <SelectItem key={report.id} value={report.id}>
+                        {reportLabel(report)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label className="mb-1 block">Return report</Label>
+                <Select value={checkInReportId} onValueChange={setCheckInReportId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a report" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {checkInReports.map((report) => (
+                      <SelectItem key={report.id} value={report.id}>
+                        {reportLabel(report)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="claim-description">What happened?</Label>
+            <Textarea
+              id="claim-description"
+              placeholder="The hem was torn when the dress came back..."
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+            />
+          </div>
+
+          <div>
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e) => setEvidence(Array.from(e.target.files || []).slice(0, 6))}
+              className="hidden"
+              id="claim-evidence"
+            />
+            <label
+              htmlFor="claim-evidence"
+              className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center cursor-pointer hover:border-eco-primary transition-colors block"
+            >
+              <Camera className="text-gray-400 mb-1 mx-auto" />
+              <p className="text-sm text-gray-500">
+                {evidence.length > 0 ? `${evidence.length} photo${evidence.length > 1 ? "s" : ""} attached` : "Attach evidence photos"}
+              </p>
+            </label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            className="w-full bg-eco-primary hover:bg-eco-primary/90"
+            onClick={() => claimMutation.mutate()}
+            disabled={
+              (kind === "damage" && (!checkOutReportId || !checkInReportId)) ||
+              !description.trim() ||
+              claimMutation.isPending
+            }
+          >
+            {claimMutation.isPending ? "Opening..." : "Open Claim"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
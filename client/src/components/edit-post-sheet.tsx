@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import PhotoListEditor, { photosOf, type EditablePhoto } from "@/components/photo-list-editor";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type { Post, PostGallery, PostWithUser } from "@shared/schema";
+
+const textFields = [
+  "caption",
+  "tags",
+  "thriftStore",
+  "pricePaid",
+  "originalBrand",
+  "size",
+  "rentPrice",
+  "rentWeeklyPrice",
+  "rentMinDays",
+  "rentDeposit",
+  "rentCleaningFee",
+  "rentLateFee",
+] as const;
+
+type TextField = (typeof textFields)[number];
+
+const rentFields: { field: TextField; label: string; placeholder: string }[] = [
+  { field: "rentPrice", label: "Price per day", placeholder: "15.00" },
+  { field: "rentWeeklyPrice", label: "Price per week", placeholder: "Optional" },
+  { field: "rentMinDays", label: "Minimum days", placeholder: "1" },
+  { field: "rentCleaningFee", label: "Cleaning fee", placeholder: "0.00" },
+  { field: "rentDeposit", label: "Refundable deposit", placeholder: "0.00" },
+  { field: "rentLateFee", label: "Late fee per day", placeholder: "Daily price" },
+];
+
+interface EditPostSheetProps {
+  post: PostWithUser;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function initialValues(post: Post): Record<TextField, string> {
+  return {
+    caption: post.caption ?? "",
+    tags: (post.tags ?? []).join(", "),
+    thriftStore: post.thriftStore ?? "",
+    pricePaid: post.pricePaid ?? "",
+    originalBrand: post.originalBrand ?? "",
+    size: post.size ?? "",
+    rentPrice: post.rentPrice ?? "",
+    rentWeeklyPrice: post.rentWeeklyPrice ?? "",
+    rentMinDays: post.rentMinDays?.toString() ?? "1",
+    rentDeposit: post.rentDeposit ?? "",
+    rentCleaningFee: post.rentCleaningFee ?? "",
+    rentLateFee: post.rentLateFee ?? "",
+  };
+}
+
+export default function EditPostSheet({ post, open, onOpenChange }: EditPostSheetProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [values, setValues] = useState(() => initialValues(post));
+  const [availableForRent, setAvailableForRent] = useState(!!post.availableForRent);
+  const [photos, setPhotos] = useState(() => photosOf(post.images));
+
+  useEffect(() => {
+    if (open) {
+      setValues(initialValues(post));
+      setAvailableForRent(!!post.availableForRent);
+      setPhotos(photosOf(post.images));
+    }
+  }, [open]);
+
+  const photosChanged = (current: EditablePhoto[]) => {
+    const original = photosOf(post.images);
+    return (
+      current.length !== original.length ||
+      current.some((photo, index) => photo.key !== original[index].key || photo.altText !== original[index].altText)
+    );
+  };
+
+  const setField = (field: TextField, value: string) => setValues({ ...values, [field]: value });
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const original = initialValues(post);
+      const changes: Record<string, unknown> = {};
+      textFields
+        .filter((field) => values[field] !== original[field])
+        .forEach((field) => {
+          changes[field] = field === "rentMinDays" ? parseInt(values[field]) || 1 : values[field];
+        });
+      if (availableForRent !== !!post.availableForRent) changes.availableForRent = availableForRent;
+
+      if (!photosChanged(photos)) {
+        const response = await apiRequest("PATCH", `/api/posts/${post.id}`, changes);
+        return response.json();
+      }
+
+      // New files are referenced from the gallery by their upload index.
+      const submitData = new FormData();
+      const gallery: PostGallery = [];
+      for (const photo of photos) {
+        if ("id" in photo) {
+          gallery.push({ id: photo.id, altText: photo.altText });
+        } else {
+          gallery.push({ file: submitData.getAll("images").length, altText: photo.altText });
+          submitData.append("images", photo.file);
+        }
+      }
+      submitData.append("gallery", JSON.stringify(gallery));
+      Object.entries(changes).forEach(([field, value]) => submitData.append(field, String(value)));
+
+      const response = await fetch(`/api/posts/${post.id}`, {
+        method: "PATCH",
+        body: submitData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`${response.status}: ${error}`);
+      }
+
+      return response.json() as Promise<Post>;
+    },
+    onSuccess: () => {
+      toast({ title: "Post updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed/following"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update post",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="max-h-[90vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Edit Post</SheetTitle>
+          <SheetDescription>The eco impact can't be changed after posting.</SheetDescription>
+        </SheetHeader>
+
+        <form
+          className="space-y-4 py-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateMutation.mutate();
+          }}
+        >
+          <div>
+            <Label className="mb-2 block">Photos</Label>
+            <PhotoListEditor photos={photos} onChange={setPhotos} />
+          </div>
+
+          <div>
+            <Label htmlFor="edit-caption">Caption</Label>
+            <Textarea
+              id="edit-caption"
+              value={values.caption}
+              onChange={(e) => setField("caption", e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="edit-tags">Tags</Label>
+            <Input
+              id="edit-tags"
+              value={values.tags}
+              onChange={(e) => setField("tags", e.target.value)}
+              placeholder="vintage, denim"
+            />
+            <p className="text-xs text-gray-500 mt-1">Separate tags with commas. #hashtags in the caption are added too.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="edit-thriftStore">Thrift store</Label>
+              <Input id="edit-thriftStore" value={values.thriftStore} onChange={(e) => setField("thriftStore", e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="edit-pricePaid">Price paid</Label>
+              <Input
+                id="edit-pricePaid"
+                type="number"
+                value={values.pricePaid}
+                onChange={(e) => setField("pricePaid", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="edit-originalBrand">Original brand</Label>
+              <Input id="edit-originalBrand" value={values.originalBrand} onChange={(e) => setField("originalBrand", e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="edit-size">Size</Label>
+              <Input id="edit-size" value={values.size} onChange={(e) => setField("size", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="edit-availableForRent"
+              checked={availableForRent}
+              onCheckedChange={(checked) => setAvailableForRent(!!checked)}
+            />
+            <Label htmlFor="edit-availableForRent" className="text-sm font-medium">
+              Available for rent
+            </Label>
+          </div>
+
+          {availableForRent && (
+            <div className="grid grid-cols-2 gap-3">
+              {rentFields.map(({ field, label, placeholder }) => (
+                <div key={field}>
+                  <Label htmlFor={`edit-${field}`}>{label}</Label>
+                  <Input
+                    id={`edit-${field}`}
+                    type="number"
+                    placeholder={placeholder}
+                    value={values[field]}
+                    onChange={(e) => setField(field, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <SheetFooter>
+            <Button
+              type="submit"
+              className="w-full bg-eco-primary hover:bg-eco-primary/90"
+              disabled={updateMutation.isPending || photos.length === 0}
+            >
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
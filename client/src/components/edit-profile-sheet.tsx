@@ -0,0 +1,215 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Camera } from "lucide-react";
+import type { User } from "@shared/schema";
+
+type EditableField = "username" | "firstName" | "lastName" | "bio" | "location";
+
+const editableFields: EditableField[] = ["username", "firstName", "lastName", "bio", "location"];
+
+interface EditProfileSheetProps {
+  user: Pick<User, EditableField | "profileImageUrl">;
+  children: ReactNode;
+}
+
+function initialValues(user: EditProfileSheetProps["user"]): Record<EditableField, string> {
+  return {
+    username: user.username ?? "",
+    firstName: user.firstName ?? "",
+    lastName: user.lastName ?? "",
+    bio: user.bio ?? "",
+    location: user.location ?? "",
+  };
+}
+
+export default function EditProfileSheet({ user, children }: EditProfileSheetProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState(() => initialValues(user));
+  const [avatar, setAvatar] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setValues(initialValues(user));
+      setAvatar(null);
+      setAvatarPreview(null);
+    }
+  }, [open]);
+
+  const setField = (field: EditableField, value: string) => setValues({ ...values, [field]: value });
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      // Only send what changed, so an untouched name keeps following the login provider.
+      const original = initialValues(user);
+      const submitData = new FormData();
+      editableFields
+        .filter((field) => values[field] !== original[field])
+        .forEach((field) => submitData.append(field, values[field]));
+      if (avatar) submitData.append("avatar", avatar);
+
+      const response = await fetch("/api/users/me", {
+        method: "PATCH",
+        body: submitData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`${response.status}: ${error}`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Profile updated" });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed/following"] });
+      setOpen(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      // Validation and username conflicts come back as `4xx: {"message": ...}`.
+      const match = error.message.match(/^40[09]: (.*)$/);
+      let description = "Failed to update profile";
+      if (match) {
+        try {
+          description = JSON.parse(match[1]).message ?? description;
+        } catch {
+          // Not JSON; keep the generic message.
+        }
+      }
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+  });
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setAvatar(file);
+    const reader = new FileReader();
+    reader.onload = (event) => setAvatarPreview(event.target?.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>{children}</SheetTrigger>
+      <SheetContent side="bottom" className="max-h-[90vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Edit Profile</SheetTitle>
+          <SheetDescription>Your username becomes your profile link.</SheetDescription>
+        </SheetHeader>
+
+        <form
+          className="space-y-4 py-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateMutation.mutate();
+          }}
+        >
+          <div className="flex items-center space-x-4">
+            <Avatar className="w-16 h-16">
+              <AvatarImage src={avatarPreview || user.profileImageUrl || ""} />
+              <AvatarFallback>{values.firstName?.[0] || values.username?.[0] || "U"}</AvatarFallback>
+            </Avatar>
+            <Label
+              htmlFor="avatar-upload"
+              className="flex items-center text-sm text-eco-primary cursor-pointer"
+            >
+              <Camera className="w-4 h-4 mr-1" />
+              Change photo
+            </Label>
+            <input
+              id="avatar-upload"
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleAvatarChange}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="username">Username</Label>
+            <Input
+              id="username"
+              value={values.username}
+              onChange={(e) => setField("username", e.target.value)}
+              placeholder="vintage_lover"
+              autoCapitalize="none"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              3–30 characters: letters, numbers, dots and underscores.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="firstName">First name</Label>
+              <Input id="firstName" value={values.firstName} onChange={(e) => setField("firstName", e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="lastName">Last name</Label>
+              <Input id="lastName" value={values.lastName} onChange={(e) => setField("lastName", e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="bio">Bio</Label>
+            <Textarea
+              id="bio"
+              value={values.bio}
+              onChange={(e) => setField("bio", e.target.value)}
+              maxLength={300}
+              rows={3}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="location">Location</Label>
+            <Input id="location" value={values.location} onChange={(e) => setField("location", e.target.value)} />
+          </div>
+
+          <SheetFooter>
+            <Button
+              type="submit"
+              className="w-full bg-eco-primary hover:bg-eco-primary/90"
+              disabled={updateMutation.isPending}
+            >
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </SheetFooter>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+
+interface FollowButtonProps {
+  userId: string;
+  isFollowing: boolean;
+  size?: "sm" | "default";
+  className?: string;
+}
+
+export default function FollowButton({ userId, isFollowing, size = "sm", className }: FollowButtonProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const followMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(isFollowing ? "DELETE" : "POST", `/api/users/${userId}/follow`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed/following"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", userId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: isFollowing ? "Failed to unfollow" : "Failed to follow",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Button
+      size={size}
+      variant={isFollowing ? "outline" : "default"}
+      className={`${isFollowing ? "" : "bg-eco-primary hover:bg-eco-primary/90"} ${className ?? ""}`}
+      onClick={() => followMutation.mutate()}
+      disabled={followMutation.isPending}
+    >
+      {isFollowing ? "Following" : "Follow"}
+    </Button>
+  );
+}
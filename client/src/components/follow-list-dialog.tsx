@@ -0,0 +1,74 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { displayName, profilePath } from "@/lib/users";
+import type { FollowListEntry } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+interface FollowListDialogProps {
+  userId: string;
+  kind: "followers" | "following";
+  children: ReactNode;
+}
+
+export default function FollowListDialog({ userId, kind, children }: FollowListDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const { data: people, isLoading } = useQuery<FollowListEntry[]>({
+    queryKey: ["/api/users", userId, `${kind}?limit=${limit}`],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{kind === "followers" ? "Followers" : "Following"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-3">
+          {isLoading ? (
+            <div className="animate-pulse h-10 bg-gray-200 rounded"></div>
+          ) : people && people.length > 0 ? (
+            people.map((person) => (
+              <Link
+                key={person.id}
+                href={profilePath(person)}
+                onClick={() => setOpen(false)}
+                className="flex items-center space-x-3"
+              >
+                <Avatar className="w-9 h-9">
+                  <AvatarImage src={person.profileImageUrl || ""} />
+                  <AvatarFallback>{person.firstName?.[0] || person.username?.[0] || "U"}</AvatarFallback>
+                </Avatar>
+                <span className="text-sm font-medium text-gray-900">{displayName(person)}</span>
+              </Link>
+            ))
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-4">
+              {kind === "followers" ? "No followers yet" : "Not following anyone yet"}
+            </p>
+          )}
+        </div>
+
+        {people && people.length === limit && (
+          <Button variant="outline" className="w-full" onClick={() => setLimit(limit + PAGE_SIZE)}>
+            Show more
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
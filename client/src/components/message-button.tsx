@@ -0,0 +1,63 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { MessageCircle } from "lucide-react";
+import type { ConversationSummary } from "@shared/schema";
+
+interface MessageButtonProps {
+  userId: string;
+  size?: "sm" | "default";
+  className?: string;
+}
+
+// Opens the conversation with `userId`, starting one if needed.
+export default function MessageButton({ userId, size = "default", className }: MessageButtonProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/conversations", { userId });
+      return response.json() as Promise<ConversationSummary>;
+    },
+    onSuccess: (conversation) => {
+      queryClient.setQueryData(["/api/conversations", conversation.id], conversation);
+      setLocation(`/messages/${conversation.id}`);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to open conversation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Button
+      size={size}
+      variant="outline"
+      className={className}
+      onClick={() => openMutation.mutate()}
+      disabled={openMutation.isPending}
+    >
+      <MessageCircle className="h-4 w-4 mr-1" />
+      Message
+    </Button>
+  );
+}
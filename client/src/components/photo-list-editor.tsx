@@ -0,0 +1,133 @@
+import { useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronLeft, ChevronRight, Plus, X } from "lucide-react";
+import { MAX_POST_IMAGES, type PostImage } from "@shared/schema";
+
+// A photo in the editor: one the post already has, or a file picked just now.
+export type EditablePhoto = {
+  key: string;
+  preview: string;
+  altText: string;
+} & ({ id: string } | { file: File });
+
+export function photosOf(images: PostImage[]): EditablePhoto[] {
+  return images.map((image) => ({ key: image.id, id: image.id, preview: image.url, altText: image.altText ?? "" }));
+}
+
+function readPreview(file: File): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsDataURL(file);
+  });
+}
+
+export async function photosFromFiles(files: FileList | null, limit = MAX_POST_IMAGES): Promise<EditablePhoto[]> {
+  const picked = Array.from(files ?? []).slice(0, limit);
+  return await Promise.all(
+    picked.map(async (file, index) => ({
+      key: `new-${Date.now()}-${index}`,
+      file,
+      preview: await readPreview(file),
+      altText: "",
+    })),
+  );
+}
+
+interface PhotoListEditorProps {
+  photos: EditablePhoto[];
+  onChange: (photos: EditablePhoto[]) => void;
+}
+
+// Pick, order, caption and remove a post's photos. The first one is the cover.
+export default function PhotoListEditor({ photos, onChange }: PhotoListEditorProps) {
+  const inputId = useId();
+
+  const addFiles = async (files: FileList | null) => {
+    onChange([...photos, ...(await photosFromFiles(files, MAX_POST_IMAGES - photos.length))]);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...photos];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const update = (index: number, altText: string) =>
+    onChange(photos.map((photo, i) => (i === index ? { ...photo, altText } : photo)));
+
+  return (
+    <div className="space-y-3">
+      {photos.map((photo, index) => (
+        <div key={photo.key} className="flex items-start space-x-3">
+          <div className="relative flex-shrink-0">
+            <img src={photo.preview} alt={photo.altText || `Photo ${index + 1}`} className="w-20 h-20 object-cover rounded-lg" />
+            {index === 0 && (
+              <span className="absolute bottom-1 left-1 rounded bg-black/60 px-1 text-[10px] text-white">Cover</span>
+            )}
+          </div>
+          <div className="flex-1 space-y-2">
+            <Input
+              value={photo.altText}
+              onChange={(e) => update(index, e.target.value)}
+              placeholder="Describe this photo (alt text)"
+              maxLength={200}
+            />
+            <div className="flex items-center space-x-1">
+              <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, -1)}>
+                <ChevronLeft className="h-4 w-4" />
+                <span className="sr-only">Move earlier</span>
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={index === photos.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+                <span className="sr-only">Move later</span>
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(photos.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove photo</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {photos.length < MAX_POST_IMAGES && (
+        <>
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            id={inputId}
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+          <label
+            htmlFor={inputId}
+            className="flex items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-4 text-sm text-gray-500 cursor-pointer hover:border-eco-primary transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {photos.length === 0 ? "Add photos" : "Add more photos"}
+            <span className="ml-1 text-xs text-gray-400">
+              ({photos.length}/{MAX_POST_IMAGES})
+            </span>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
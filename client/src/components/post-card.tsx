@@ -1,14 +1,28 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useMute } from "@/hooks/useMute";
+import { usePostSubscription } from "@/hooks/useRealtime";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
+import RentalRequestDialog from "@/components/rental-request-dialog";
+import FollowButton from "@/components/follow-button";
+import PostOwnerMenu from "@/components/post-owner-menu";
+import PostGallery from "@/components/post-gallery";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Heart, MessageCircle, Share, Bookmark, MoreHorizontal } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Heart, MessageCircle, Share, Bookmark, MoreHorizontal, Star } from "lucide-react";
 import { Link } from "wouter";
+import { displayName, profilePath } from "@/lib/users";
+import RichText, { tagPath } from "@/components/rich-text";
 import { PostWithUser } from "@shared/schema";
 
 interface PostCardProps {
@@ -19,6 +33,9 @@ export default function PostCard({ post }: PostCardProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const muteMutation = useMute(post.userId);
+  usePostSubscription(post.id);
+  const authorName = post.user.firstName || post.user.username || "this user";
 
   const likeMutation = useMutation({
     mutationFn: async () => {
@@ -27,6 +44,7 @@ export default function PostCard({ post }: PostCardProps) {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed/following"] });
       queryClient.invalidateQueries({ queryKey: ["/api/posts", post.id] });
     },
     onError: (error) => {
@@ -49,50 +67,6 @@ export default function PostCard({ post }: PostCardProps) {
     },
   });
 
-  const requestRentalMutation = useMutation({
-    mutationFn: async () => {
-      const today = new Date();
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      const nextWeek = new Date(today);
-      nextWeek.setDate(nextWeek.getDate() + 7);
-
-      const response = await apiRequest("POST", "/api/rentals/request", {
-        postId: post.id,
-        ownerId: post.userId,
-        startDate: tomorrow.toISOString(),
-        endDate: nextWeek.toISOString(),
-        message: `Hi! I'd love to rent this item. Would it be available?`,
-        totalPrice: "0",
-      });
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Rental request sent! The owner will be notified.",
-      });
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      toast({
-        title: "Error",
-        description: "Failed to send rental request",
-        variant: "destructive",
-      });
-    },
-  });
-
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -115,44 +89,57 @@ export default function PostCard({ post }: PostCardProps) {
   return (
     <Card className="bg-white border-b border-gray-200 mb-1 rounded-none border-x-0 border-t-0">
       <div className="flex items-center justify-between p-4">
-        <div className="flex items-center space-x-3">
+        <Link href={profilePath(post.user)} className="flex items-center space-x-3">
           <Avatar className="w-10 h-10">
             <AvatarImage src={post.user.profileImageUrl || ""} />
             <AvatarFallback>
-              {post.user.firstName?.[0] || post.user.email?.[0] || "U"}
+              {post.user.firstName?.[0] || post.user.username?.[0] || "U"}
             </AvatarFallback>
           </Avatar>
           <div>
-            <h3 className="font-semibold text-gray-900">
-              {post.user.firstName && post.user.lastName 
-                ? `${post.user.firstName} ${post.user.lastName}`
-                : post.user.username || post.user.email
-              }
+            <h3 className="font-semibold text-gray-900 flex items-center">
+              {displayName(post.user)}
+              {post.userReputation && post.userReputation.reviewCount > 0 && (
+                <span className="ml-2 flex items-center text-xs font-normal text-gray-600">
+                  <Star className="h-3 w-3 mr-0.5 fill-yellow-400 text-yellow-400" />
+                  {post.userReputation.averageRating?.toFixed(1)} ({post.userReputation.reviewCount})
+                </span>
+              )}
             </h3>
             <p className="text-xs text-gray-500">
               {post.user.location || "Location"}
             </p>
           </div>
-        </div>
+        </Link>
         <div className="flex items-center space-x-2">
+          {user && user.id !== post.userId && (
+            <FollowButton userId={post.userId} isFollowing={!!post.isFollowingAuthor} className="h-7 px-3 text-xs" />
+          )}
           {userBadge && (
             <Badge className="bg-eco-light text-eco-primary text-xs px-2 py-1 rounded-full font-medium">
               {userBadge.icon} {userBadge.name}
             </Badge>
           )}
-          <Button variant="ghost" size="icon">
-            <MoreHorizontal className="h-4 w-4 text-gray-400" />
-          </Button>
+          {user && user.id !== post.userId ? (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon">
+                  <MoreHorizontal className="h-4 w-4 text-gray-400" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => muteMutation.mutate(true)}>
+                  Mute {authorName}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ) : user ? (
+            <PostOwnerMenu post={post} />
+          ) : null}
         </div>
       </div>
 
-      <Link href={`/post/${post.id}`}>
-        <img 
-          src={post.imageUrl} 
-          alt="Thrift outfit post" 
-          className="w-full h-80 object-cover cursor-pointer"
-        />
-      </Link>
+      <PostGallery post={post} imageClassName="h-80" href={`/post/${post.id}`} />
 
       <div className="p-4">
         <div className="flex items-center justify-between mb-3">
@@ -177,19 +164,24 @@ export default function PostCard({ post }: PostCardProps) {
               <Share className="h-6 w-6 text-gray-700" />
             </Button>
             {post.availableForRent && (
-              <Button 
-                size="sm"
-                className="bg-eco-secondary hover:bg-eco-secondary/90 text-white px-3 py-1 rounded-full text-xs font-medium"
-                onClick={() => requestRentalMutation.mutate()}
-                disabled={requestRentalMutation.isPending || post.userId === user?.id}
-              >
-                {requestRentalMutation.isPending 
-                  ? "Requesting..." 
-                  : post.userId === user?.id 
-                    ? "Your Item" 
-                    : "Rent This Look"
-                }
-              </Button>
+              post.userId === user?.id ? (
+                <Button
+                  size="sm"
+                  className="bg-eco-secondary hover:bg-eco-secondary/90 text-white px-3 py-1 rounded-full text-xs font-medium"
+                  disabled
+                >
+                  Your Item
+                </Button>
+              ) : (
+                <RentalRequestDialog post={post}>
+                  <Button
+                    size="sm"
+                    className="bg-eco-secondary hover:bg-eco-secondary/90 text-white px-3 py-1 rounded-full text-xs font-medium"
+                  >
+                    Rent This Look
+                  </Button>
+                </RentalRequestDialog>
+              )
             )}
           </div>
           <Button variant="ghost" size="sm" className="p-0 hover:bg-transparent">
@@ -205,19 +197,20 @@ export default function PostCard({ post }: PostCardProps) {
           <span className="font-semibold text-gray-900">
             {post.user.username || post.user.firstName || "user"}
           </span>
-          <span className="text-gray-900 ml-1">{post.caption}</span>
+          {post.caption && <RichText text={post.caption} className="text-gray-900 ml-1" />}
         </div>
 
         {post.tags && post.tags.length > 0 && (
           <div className="flex flex-wrap gap-1 mb-3">
             {post.tags.slice(0, 3).map((tag, index) => (
-              <Badge 
-                key={index} 
-                variant="secondary" 
-                className="bg-eco-light text-eco-primary text-xs px-2 py-1 rounded-full"
-              >
-                {tag.startsWith('#') ? tag : `#${tag}`}
-              </Badge>
+              <Link key={index} href={tagPath(tag)}>
+                <Badge 
+                  variant="secondary" 
+                  className="bg-eco-light text-eco-primary text-xs px-2 py-1 rounded-full"
+                >
+                  {tag.startsWith('#') ? tag : `#${tag}`}
+                </Badge>
+              </Link>
             ))}
             {post.tags.length > 3 && (
               <span className="text-xs text-gray-500">+{post.tags.length - 3} more</span>
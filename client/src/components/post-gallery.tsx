@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import { blurhashPlaceholder, srcSetOf } from "@/lib/images";
+import type { Post, PostImage } from "@shared/schema";
+
+// The feed column is at most 28rem wide.
+const SIZES = "(max-width: 448px) 100vw, 448px";
+
+type GalleryImage = Pick<PostImage, "url" | "altText" | "width" | "height" | "blurhash" | "variants"> & { key: string };
+
+interface PostGalleryProps {
+  post: Pick<Post, "id" | "imageUrl"> & { images?: PostImage[] };
+  imageClassName: string;
+  // When set, tapping a photo opens this page.
+  href?: string;
+}
+
+export default function PostGallery({ post, imageClassName, href }: PostGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  // Posts cached from before galleries still have their cover.
+  const images: GalleryImage[] = post.images?.length
+    ? post.images.map((image) => ({ ...image, key: image.id }))
+    : [{ key: post.id, url: post.imageUrl, altText: null, width: null, height: null, blurhash: null, variants: [] }];
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  const renderImage = (image: GalleryImage, index: number) => {
+    const placeholder = image.blurhash ? blurhashPlaceholder(image.blurhash) : undefined;
+    const webp = srcSetOf(image.variants, "webp");
+    const img = (
+      <picture className="block">
+        {webp && <source type="image/webp" srcSet={webp} sizes={SIZES} />}
+        <img
+          src={image.url}
+          srcSet={srcSetOf(image.variants, "jpeg")}
+          sizes={SIZES}
+          width={image.width ?? undefined}
+          height={image.height ?? undefined}
+          loading="lazy"
+          alt={image.altText || (images.length > 1 ? `Thrift outfit photo ${index + 1}` : "Thrift outfit post")}
+          className={`w-full object-cover bg-gray-100 bg-cover bg-center ${imageClassName} ${href ? "cursor-pointer" : ""}`}
+          style={placeholder ? { backgroundImage: `url(${placeholder})` } : undefined}
+        />
+      </picture>
+    );
+    return href ? <Link href={href}>{img}</Link> : img;
+  };
+
+  if (images.length === 1) {
+    return renderImage(images[0], 0);
+  }
+
+  return (
+    <Carousel setApi={setApi} className="w-full">
+      <CarouselContent className="ml-0">
+        {images.map((image, index) => (
+          <CarouselItem key={image.key} className="pl-0">
+            {renderImage(image, index)}
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      <CarouselPrevious className="left-2 bg-white/80 disabled:opacity-0" />
+      <CarouselNext className="right-2 bg-white/80 disabled:opacity-0" />
+      <div className="absolute bottom-2 left-0 right-0 flex justify-center space-x-1.5">
+        {images.map((image, index) => (
+          <button
+            key={image.key}
+            type="button"
+            aria-label={`Show photo ${index + 1}`}
+            onClick={() => api?.scrollTo(index)}
+            className={`h-1.5 w-1.5 rounded-full ${index === current ? "bg-white" : "bg-white/50"}`}
+          />
+        ))}
+      </div>
+    </Carousel>
+  );
+}
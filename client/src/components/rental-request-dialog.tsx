@@ -0,0 +1,292 @@
+import { useState, type ReactNode } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { asLocalDay, toCalendarDate } from "@shared/calendarDates";
+import type { DateRange } from "react-day-picker";
+import { BusyRange, PostWithUser, RentalQuote, RentalWaitlistEntry } from "@shared/schema";
+
+interface RentalRequestDialogProps {
+  post: PostWithUser;
+  children: ReactNode;
+}
+
+export default function RentalRequestDialog({ post, children }: RentalRequestDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [range, setRange] = useState<DateRange | undefined>();
+  // In waitlist mode booked days can be picked, and submitting joins the waitlist.
+  const [waitlistMode, setWaitlistMode] = useState(false);
+  const [autoRequest, setAutoRequest] = useState(true);
+  const [message, setMessage] = useState(
+    `Hi! I'd love to rent this ${post.tags?.[0]?.replace("#", "") || "item"}. Would it be available?`,
+  );
+
+  const { data: busyRanges } = useQuery<BusyRange[]>({
+    queryKey: ["/api/posts", post.id, "availability"],
+    enabled: open,
+  });
+
+  const { data: waitlistEntries } = useQuery<RentalWaitlistEntry[]>({
+    queryKey: ["/api/posts", post.id, "waitlist"],
+    enabled: open,
+  });
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  // The return day of a booking stays selectable so the next renter can pick up that day.
+  const disabledDays = waitlistMode ? [{ before: today }] : [
+    { before: today },
+    ...(busyRanges || []).map((busy) => {
+      const to = asLocalDay(busy.endDate);
+      to.setDate(to.getDate() - 1);
+      return { from: asLocalDay(busy.startDate), to };
+    }),
+  ];
+
+  const hasValidRange = !!range?.from && !!range?.to && range.to > range.from;
+
+  const { data: quote } = useQuery<RentalQuote>({
+    queryKey: [
+      "/api/posts",
+      post.id,
+      `quote?startDate=${range?.from && toCalendarDate(range.from)}&endDate=${range?.to && toCalendarDate(range.to)}`,
+    ],
+    enabled: open && hasValidRange,
+  });
+
+  const belowMinDays = !!quote && quote.days < quote.minDays;
+
+  const requestRentalMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/rentals/request", {
+        postId: post.id,
+        startDate: toCalendarDate(range!.from!),
+        endDate: toCalendarDate(range!.to!),
+        message,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Rental request sent! The owner will be notified.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/rentals/my-requests"] });
+      setOpen(false);
+      setRange(undefined);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      if (error.message.startsWith("409")) {
+        toast({
+          title: "Dates unavailable",
+          description: "Someone has already booked this item for those dates. You can join the waitlist instead.",
+          variant: "destructive",
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/posts", post.id, "availability"] });
+        setWaitlistMode(true);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to send rental request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/posts/${post.id}/waitlist`, {
+        startDate: toCalendarDate(range!.from!),
+        endDate: toCalendarDate(range!.to!),
+        message,
+        autoRequest,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "You're on the waitlist",
+        description: autoRequest
+          ? "If these dates free up we'll send the request for you."
+          : "We'll let you know if these dates free up.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/posts", post.id, "waitlist"] });
+      setOpen(false);
+      setRange(undefined);
+      setWaitlistMode(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message.startsWith("400")
+          ? "Those dates can't be waitlisted. If they're free, send a request instead."
+          : "Failed to join waitlist",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = requestRentalMutation.isPending || joinWaitlistMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{waitlistMode ? "Join the Waitlist" : "Request to Rent"}</DialogTitle>
+          <DialogDescription>
+            {waitlistMode
+              ? "Pick the days you want even if they're booked. If they free up, you're first in line."
+              : "Pick your pickup and return days. Greyed out days are already booked."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Calendar
+          mode="range"
+          selected={range}
+          onSelect={setRange}
+          disabled={disabledDays}
+          numberOfMonths={1}
+          className="mx-auto"
+        />
+
+        <p className="text-sm text-gray-600 text-center">
+          {range?.from
+            ? range.to
+              ? `${format(range.from, "MMM d")} – ${format(range.to, "MMM d")}`
+              : `Pickup ${format(range.from, "MMM d")} – pick a return day`
+            : "No dates selected"}
+        </p>
+
+        <Button
+          variant="link"
+          size="sm"
+          className="text-eco-primary"
+          onClick={() => setWaitlistMode(!waitlistMode)}
+        >
+          {waitlistMode ? "Back to available dates" : "Dates you want are booked? Join the waitlist"}
+        </Button>
+
+        {waitlistEntries && waitlistEntries.length > 0 && (
+          <div className="text-xs text-gray-600 space-y-1">
+            {waitlistEntries.map((entry) => (
+              <p key={entry.id}>
+                On the waitlist for {format(asLocalDay(entry.startDate), "MMM d")} – {format(asLocalDay(entry.endDate), "MMM d")}
+                {entry.status !== "waiting" && " (dates opened up)"}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {hasValidRange && quote && (
+          <div className="bg-eco-light rounded-lg p-3 text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-gray-600">
+                {quote.days} {quote.days === 1 ? "day" : "days"} rental
+              </span>
+              <span className="text-gray-900">${quote.rentalFee}</span>
+            </div>
+            {parseFloat(quote.cleaningFee) > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Cleaning fee</span>
+                <span className="text-gray-900">${quote.cleaningFee}</span>
+              </div>
+            )}
+            {parseFloat(quote.securityDeposit) > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Security deposit (refundable)</span>
+                <span className="text-gray-900">${quote.securityDeposit}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold text-eco-primary border-t border-eco-primary/20 pt-1">
+              <span>Total</span>
+              <span>${quote.totalPrice}</span>
+            </div>
+            {belowMinDays && (
+              <p className="text-xs text-red-600">
+                This item must be rented for at least {quote.minDays} days.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div>
+          <Label htmlFor="rental-message">Message to owner</Label>
+          <Textarea
+            id="rental-message"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={3}
+          />
+        </div>
+
+        {waitlistMode && (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="waitlist-auto-request"
+              checked={autoRequest}
+              onCheckedChange={(checked) => setAutoRequest(!!checked)}
+            />
+            <Label htmlFor="waitlist-auto-request" className="text-sm">
+              Send my request automatically if the dates free up
+            </Label>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            className="w-full bg-eco-primary hover:bg-eco-primary/90"
+            onClick={() => (waitlistMode ? joinWaitlistMutation.mutate() : requestRentalMutation.mutate())}
+            disabled={!hasValidRange || belowMinDays || isPending}
+          >
+            {waitlistMode
+              ? joinWaitlistMutation.isPending ? "Joining..." : "Join Waitlist"
+              : requestRentalMutation.isPending ? "Requesting..." : "Send Request"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
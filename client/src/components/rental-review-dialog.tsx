@@ -0,0 +1,157 @@
+import { useState, type ReactNode } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Star } from "lucide-react";
+import type { RentalParty } from "@shared/schema";
+
+interface StarPickerProps {
+  value: number;
+  onChange: (value: number) => void;
+  label: string;
+}
+
+function StarPicker({ value, onChange, label }: StarPickerProps) {
+  return (
+    <div className="flex space-x-1" role="radiogroup" aria-label={label}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} star${star > 1 ? "s" : ""}`}
+          onClick={() => onChange(star)}
+        >
+          <Star
+            className={`h-7 w-7 ${star <= value ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface RentalReviewDialogProps {
+  rentalId: string;
+  role: RentalParty;
+  counterpartName: string;
+  children: ReactNode;
+}
+
+export default function RentalReviewDialog({ rentalId, role, counterpartName, children }: RentalReviewDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [itemConditionRating, setItemConditionRating] = useState(0);
+  const [comment, setComment] = useState("");
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/rentals/${rentalId}/reviews`, {
+        rating,
+        itemConditionRating: role === "requester" ? itemConditionRating : undefined,
+        comment,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Thanks!",
+        description: "Your review has been posted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/rentals/incoming"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rentals/my-requests"] });
+      setOpen(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to post review",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = rating > 0 && (role === "owner" || itemConditionRating > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Review {counterpartName}</DialogTitle>
+          <DialogDescription>
+            {role === "owner"
+              ? "How was lending to this member?"
+              : "How was renting from this member?"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Overall</Label>
+            <StarPicker value={rating} onChange={setRating} label="Overall rating" />
+          </div>
+
+          {role === "requester" && (
+            <div>
+              <Label className="mb-2 block">Item condition</Label>
+              <StarPicker
+                value={itemConditionRating}
+                onChange={setItemConditionRating}
+                label="Item condition rating"
+              />
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="review-comment">Comments</Label>
+            <Textarea
+              id="review-comment"
+              placeholder="Share a few words about the rental..."
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            className="w-full bg-eco-primary hover:bg-eco-primary/90"
+            onClick={() => reviewMutation.mutate()}
+            disabled={!canSubmit || reviewMutation.isPending}
+          >
+            {reviewMutation.isPending ? "Posting..." : "Post Review"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,32 @@
+import { Fragment } from "react";
+import { Link } from "wouter";
+import { normalizeTag, parseRichText } from "@shared/richText";
+
+export function tagPath(tag: string): string {
+  return `/tags/${encodeURIComponent(normalizeTag(tag) ?? tag.replace(/^#+/, ""))}`;
+}
+
+// Plain text with @mentions linked to profiles and #hashtags linked to tag pages.
+export default function RichText({ text, className }: { text: string; className?: string }) {
+  return (
+    <span className={className}>
+      {parseRichText(text).map((segment, index) => {
+        if (segment.type === "mention") {
+          return (
+            <Link key={index} href={`/u/${encodeURIComponent(segment.username)}`} className="text-eco-primary font-medium">
+              {segment.text}
+            </Link>
+          );
+        }
+        if (segment.type === "hashtag") {
+          return (
+            <Link key={index} href={tagPath(segment.tag)} className="text-eco-primary">
+              {segment.text}
+            </Link>
+          );
+        }
+        return <Fragment key={index}>{segment.text}</Fragment>;
+      })}
+    </span>
+  );
+}
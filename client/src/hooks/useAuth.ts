@@ -1,7 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
+import { UserWithStats } from "@shared/schema";
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery({
+  const { data: user, isLoading } = useQuery<UserWithStats>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { draftSignature, draftsKey, saveDraft, withSavedPhotos, type PostForm } from "@/lib/drafts";
+import type { EditablePhoto } from "@/components/photo-list-editor";
+
+// "published" means the post went live elsewhere (e.g. its scheduled time
+// came) and autosave has stopped.
+export type DraftSaveStatus = "idle" | "saving" | "saved" | "error" | "published";
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+interface DraftAutosaveOptions {
+  // The draft being edited, or null for a new post.
+  draftId: string | null;
+  form: PostForm;
+  photos: EditablePhoto[];
+  setPhotos: Dispatch<SetStateAction<EditablePhoto[]>>;
+  // False while an existing draft is still loading into the form.
+  ready: boolean;
+}
+
+/**
+ * Saves the composer as a draft shortly after each change, and once more if
+ * the page is left with changes pending. Nothing is saved before the first
+ * photo, since a post can't exist without one. Saves never overlap.
+ */
+export function useDraftAutosave(options: DraftAutosaveOptions) {
+  const [draftId, setDraftId] = useState(options.draftId);
+  const [status, setStatus] = useState<DraftSaveStatus>("idle");
+  const latest = useRef(options);
+  latest.current = options;
+  const draftIdRef = useRef(options.draftId);
+  const savedSignature = useRef<string | null>(null);
+  const savedForm = useRef<PostForm | null>(null);
+  const inFlight = useRef<Promise<unknown> | null>(null);
+  const stopped = useRef(false);
+
+  // Resolves to the draft's id once everything so far is saved.
+  const flush = useCallback(async (): Promise<string | null> => {
+    while (inFlight.current) await inFlight.current.catch(() => undefined);
+
+    const { form, photos, ready } = latest.current;
+    const signature = draftSignature(form, photos);
+    if (stopped.current || !ready || photos.length === 0 || signature === savedSignature.current) {
+      return draftIdRef.current;
+    }
+
+    setStatus("saving");
+    const save = saveDraft(draftIdRef.current, form, photos, savedForm.current);
+    inFlight.current = save;
+    try {
+      const saved = await save;
+      draftIdRef.current = saved.id;
+      savedSignature.current = signature;
+      savedForm.current = form;
+      setDraftId(saved.id);
+      latest.current.setPhotos((current) => withSavedPhotos(current, photos, saved));
+      if (saved.status !== "draft") {
+        stopped.current = true;
+        setStatus("published");
+      } else {
+        setStatus("saved");
+      }
+      queryClient.invalidateQueries({ queryKey: draftsKey });
+      return saved.id;
+    } catch (error) {
+      setStatus("error");
+      throw error;
+    } finally {
+      inFlight.current = null;
+    }
+  }, []);
+
+  // Stops saving, e.g. once the draft has been published.
+  const stop = useCallback(() => {
+    stopped.current = true;
+  }, []);
+
+  // A loaded draft starts out saved.
+  useEffect(() => {
+    if (options.ready && draftIdRef.current && savedSignature.current === null) {
+      savedSignature.current = draftSignature(options.form, options.photos);
+      savedForm.current = options.form;
+    }
+  }, [options.ready]);
+
+  useEffect(() => {
+    if (!options.ready || options.photos.length === 0) return;
+    const timer = setTimeout(() => flush().catch(() => undefined), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [options.form, options.photos, options.ready, flush]);
+
+  useEffect(() => {
+    return () => {
+      flush().catch(() => undefined);
+    };
+  }, [flush]);
+
+  return { draftId, status, flush, stop };
+}
@@ -0,0 +1,46 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+
+// Mutes or unmutes `userId` for the current user and refreshes both feeds.
+export function useMute(userId: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (mute: boolean) => {
+      const response = await apiRequest(mute ? "POST" : "DELETE", `/api/users/${userId}/mute`);
+      return response.json() as Promise<{ isMuted: boolean }>;
+    },
+    onSuccess: ({ isMuted }) => {
+      toast({
+        title: isMuted ? "Muted" : "Unmuted",
+        description: isMuted
+          ? "You won't see their posts in your feeds. You still follow them."
+          : "Their posts will show up in your feeds again.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed/following"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users", userId] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update mute",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { getRealtimeStatus, startRealtime, subscribeToRealtimeStatus, watchPost } from "@/lib/realtime";
+
+// Keeps the realtime socket open while signed in.
+export function useRealtimeConnection(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    return startRealtime();
+  }, [enabled]);
+}
+
+export function useRealtimeStatus() {
+  return useSyncExternalStore(subscribeToRealtimeStatus, getRealtimeStatus);
+}
+
+// Live like/comment counts for a post while the component is mounted.
+export function usePostSubscription(postId: string | undefined) {
+  useEffect(() => {
+    if (!postId) return;
+    return watchPost(postId);
+  }, [postId]);
+}
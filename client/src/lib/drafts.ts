@@ -0,0 +1,147 @@
+import { format } from "date-fns";
+import type { EditablePhoto } from "@/components/photo-list-editor";
+import type { Post, PostGallery, PostWithImages } from "@shared/schema";
+
+export const draftsKey = ["/api/posts/drafts"];
+
+// The composer's text fields, as typed.
+export type PostForm = {
+  caption: string;
+  thriftStore: string;
+  pricePaid: string;
+  originalBrand: string;
+  size: string;
+  tags: string;
+  availableForRent: boolean;
+  rentPrice: string;
+  rentWeeklyPrice: string;
+  rentMinDays: string;
+  rentDeposit: string;
+  rentCleaningFee: string;
+  rentLateFee: string;
+  // A datetime-local value; blank publishes on demand.
+  publishAt: string;
+};
+
+export const emptyPostForm: PostForm = {
+  caption: "",
+  thriftStore: "",
+  pricePaid: "",
+  originalBrand: "",
+  size: "",
+  tags: "",
+  availableForRent: false,
+  rentPrice: "",
+  rentWeeklyPrice: "",
+  rentMinDays: "",
+  rentDeposit: "",
+  rentCleaningFee: "",
+  rentLateFee: "",
+  publishAt: "",
+};
+
+export function formFromPost(post: Post): PostForm {
+  return {
+    caption: post.caption ?? "",
+    thriftStore: post.thriftStore ?? "",
+    pricePaid: post.pricePaid ?? "",
+    originalBrand: post.originalBrand ?? "",
+    size: post.size ?? "",
+    tags: (post.tags ?? []).join(","),
+    availableForRent: !!post.availableForRent,
+    rentPrice: post.rentPrice ?? "",
+    rentWeeklyPrice: post.rentWeeklyPrice ?? "",
+    rentMinDays: post.rentMinDays?.toString() ?? "",
+    rentDeposit: post.rentDeposit ?? "",
+    rentCleaningFee: post.rentCleaningFee ?? "",
+    rentLateFee: post.rentLateFee ?? "",
+    publishAt: post.publishAt ? format(new Date(post.publishAt), "yyyy-MM-dd'T'HH:mm") : "",
+  };
+}
+
+const textFields = [
+  "caption",
+  "thriftStore",
+  "pricePaid",
+  "originalBrand",
+  "size",
+  "tags",
+  "rentPrice",
+  "rentWeeklyPrice",
+  "rentMinDays",
+  "rentDeposit",
+  "rentCleaningFee",
+  "rentLateFee",
+] as const;
+
+/**
+ * Saves the composer as a draft: creates it on the first save, then replaces
+ * its fields and photos. Photos already on the draft are sent by id, so each
+ * file is only uploaded once. `saved` is the form as last saved; the publish
+ * time is only sent when it differs, since the server refuses it once the
+ * post is live.
+ */
+export async function saveDraft(
+  draftId: string | null,
+  form: PostForm,
+  photos: EditablePhoto[],
+  saved: PostForm | null,
+): Promise<PostWithImages> {
+  const submitData = new FormData();
+  textFields.forEach((field) => submitData.append(field, form[field]));
+  submitData.append("availableForRent", form.availableForRent.toString());
+  if (!draftId || form.publishAt !== saved?.publishAt) {
+    submitData.append("publishAt", form.publishAt ? new Date(form.publishAt).toISOString() : "");
+  }
+
+  if (draftId) {
+    // New files are referenced from the gallery by their upload index.
+    const gallery: PostGallery = [];
+    for (const photo of photos) {
+      if ("id" in photo) {
+        gallery.push({ id: photo.id, altText: photo.altText });
+      } else {
+        gallery.push({ file: submitData.getAll("images").length, altText: photo.altText });
+        submitData.append("images", photo.file);
+      }
+    }
+    submitData.append("gallery", JSON.stringify(gallery));
+  } else {
+    submitData.append("status", "draft");
+    photos.forEach((photo) => {
+      if ("file" in photo) submitData.append("images", photo.file);
+    });
+    submitData.append("altTexts", JSON.stringify(photos.map((photo) => photo.altText)));
+  }
+
+  const response = await fetch(draftId ? `/api/posts/${draftId}` : "/api/posts", {
+    method: draftId ? "PATCH" : "POST",
+    body: submitData,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`${response.status}: ${error}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * After a save, points the photos that were sent at the draft's saved copies.
+ * `sent` is the list that was saved, in order; keys stay the same so the
+ * editor doesn't re-render them.
+ */
+export function withSavedPhotos(current: EditablePhoto[], sent: EditablePhoto[], saved: PostWithImages): EditablePhoto[] {
+  const savedIds = new Map(sent.map((photo, index) => [photo.key, saved.images[index]?.id]));
+  return current.map((photo) => {
+    const id = savedIds.get(photo.key);
+    return id && "file" in photo ? { key: photo.key, id, preview: photo.preview, altText: photo.altText } : photo;
+  });
+}
+
+// What a save would change, for telling whether there is anything to save.
+export function draftSignature(form: PostForm, photos: EditablePhoto[]): string {
+  return JSON.stringify([form, photos.map((photo) => [photo.key, photo.altText])]);
+}
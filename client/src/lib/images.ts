@@ -0,0 +1,32 @@
+import { decode } from "blurhash";
+import type { ImageVariant } from "@shared/schema";
+
+export function srcSetOf(variants: ImageVariant[], format: ImageVariant["format"]): string | undefined {
+  const matching = variants.filter((variant) => variant.format === format);
+  if (matching.length === 0) return undefined;
+  return matching.map((variant) => `${variant.url} ${variant.width}w`).join(", ");
+}
+
+const placeholders = new Map<string, string>();
+
+// A tiny blurred picture, as a data URL, to show until the photo loads.
+export function blurhashPlaceholder(hash: string): string | undefined {
+  const cached = placeholders.get(hash);
+  if (cached) return cached;
+  try {
+    const size = 32;
+    const canvas = document.createElement("canvas");
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext("2d");
+    if (!context) return undefined;
+    const imageData = context.createImageData(size, size);
+    imageData.data.set(decode(hash, size, size));
+    context.putImageData(imageData, 0, 0);
+    const url = canvas.toDataURL();
+    placeholders.set(hash, url);
+    return url;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,86 @@
+import type { InfiniteData } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ConversationSummary, CursorPage, Message, User } from "@shared/schema";
+
+// Cache keys and cache updates for direct messages, shared by the messaging
+// pages and the realtime socket.
+
+export const inboxKey = ["/api/conversations"];
+export const unreadMessagesKey = ["/api/messages/unread-count"];
+
+export function threadKey(conversationId: string) {
+  return ["/api/conversations", conversationId, "messages"];
+}
+
+export async function fetchPage<T>(url: string, cursor: string | null): Promise<CursorPage<T>> {
+  const response = await apiRequest("GET", cursor ? `${url}?cursor=${encodeURIComponent(cursor)}` : url);
+  return response.json();
+}
+
+function currentUserId(): string | undefined {
+  return queryClient.getQueryData<User>(["/api/auth/user"])?.id;
+}
+
+/** Adds a sent or received message to its thread and moves its conversation to the top of the inbox. */
+export function cacheMessage(message: Message) {
+  const incoming = message.senderId !== currentUserId();
+
+  queryClient.setQueryData<InfiniteData<CursorPage<Message>>>(threadKey(message.conversationId), (current) => {
+    if (!current || current.pages.some((page) => page.items.some((item) => item.id === message.id))) return current;
+    const [newest, ...older] = current.pages;
+    return { ...current, pages: [{ ...newest, items: [message, ...newest.items] }, ...older] };
+  });
+
+  const inbox = queryClient.getQueryData<InfiniteData<CursorPage<ConversationSummary>>>(inboxKey);
+  const summary = inbox?.pages.flatMap((page) => page.items).find((item) => item.id === message.conversationId);
+  if (inbox && summary) {
+    if (summary.lastMessage?.id !== message.id) {
+      const updated: ConversationSummary = {
+        ...summary,
+        lastMessage: message,
+        lastMessageAt: message.createdAt ?? summary.lastMessageAt,
+        unreadCount: summary.unreadCount + (incoming ? 1 : 0),
+      };
+      const pages = inbox.pages.map((page) => ({
+        ...page,
+        items: page.items.filter((item) => item.id !== message.conversationId),
+      }));
+      pages[0] = { ...pages[0], items: [updated, ...pages[0].items] };
+      queryClient.setQueryData(inboxKey, { ...inbox, pages });
+    }
+  } else {
+    // A conversation the inbox has not loaded yet.
+    queryClient.invalidateQueries({ queryKey: inboxKey, exact: true });
+  }
+
+  if (incoming) {
+    queryClient.setQueryData<{ count: number }>(unreadMessagesKey, (current) =>
+      current ? { count: current.count + 1 } : current,
+    );
+  }
+}
+
+/** Applies a read receipt: the messages sent to the reader are marked read and, if that was us, the unread badges clear. */
+export function cacheConversationRead(conversationId: string, readerId: string, readAt: Date) {
+  queryClient.setQueryData<InfiniteData<CursorPage<Message>>>(threadKey(conversationId), (current) =>
+    current && {
+      ...current,
+      pages: current.pages.map((page) => ({
+        ...page,
+        items: page.items.map((item) => (item.senderId === readerId || item.readAt ? item : { ...item, readAt })),
+      })),
+    },
+  );
+
+  if (readerId !== currentUserId()) return;
+  queryClient.setQueryData<InfiniteData<CursorPage<ConversationSummary>>>(inboxKey, (current) =>
+    current && {
+      ...current,
+      pages: current.pages.map((page) => ({
+        ...page,
+        items: page.items.map((item) => (item.id === conversationId ? { ...item, unreadCount: 0 } : item)),
+      })),
+    },
+  );
+  queryClient.invalidateQueries({ queryKey: unreadMessagesKey });
+}
@@ -0,0 +1,195 @@
+import type { Query } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { cacheConversationRead, cacheMessage, inboxKey, unreadMessagesKey } from "@/lib/messages";
+import type {
+  NotificationWithActor,
+  Post,
+  RealtimeClientMessage,
+  RealtimeEvent,
+  RentalRequest,
+  RentalRequestWithDetails,
+} from "@shared/schema";
+
+// Client side of the /ws socket. Pushed events are written straight into the
+// React Query cache. While the socket is down nothing breaks: pages keep their
+// last data, the unread badge polls, and everything that may have been missed
+// is refetched once the socket is back.
+
+export type RealtimeStatus = "connecting" | "open" | "closed";
+
+const MAX_BACKOFF_MS = 30 * 1000;
+
+let socket: WebSocket | null = null;
+let status: RealtimeStatus = "closed";
+let retries = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+let stopped = true;
+let hasConnected = false;
+
+const statusListeners = new Set<() => void>();
+// How many mounted components show each post.
+const subscribedPosts = new Map<string, number>();
+let subscriptionQueued = false;
+
+function setStatus(next: RealtimeStatus) {
+  status = next;
+  statusListeners.forEach((listener) => listener());
+}
+
+export function getRealtimeStatus(): RealtimeStatus {
+  return status;
+}
+
+export function subscribeToRealtimeStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => statusListeners.delete(listener);
+}
+
+function sendSubscriptions() {
+  if (socket?.readyState !== WebSocket.OPEN) return;
+  const message: RealtimeClientMessage = { type: "subscribe", postIds: Array.from(subscribedPosts.keys()) };
+  socket.send(JSON.stringify(message));
+}
+
+// Batches the subscribe/unsubscribe calls of one render into a single message.
+function queueSubscriptions() {
+  if (subscriptionQueued) return;
+  subscriptionQueued = true;
+  setTimeout(() => {
+    subscriptionQueued = false;
+    sendSubscriptions();
+  }, 0);
+}
+
+/** Asks for live like/comment counts for a post until the returned function is called. */
+export function watchPost(postId: string): () => void {
+  subscribedPosts.set(postId, (subscribedPosts.get(postId) ?? 0) + 1);
+  queueSubscriptions();
+  return () => {
+    const remaining = (subscribedPosts.get(postId) ?? 1) - 1;
+    if (remaining > 0) subscribedPosts.set(postId, remaining);
+    else subscribedPosts.delete(postId);
+    queueSubscriptions();
+  };
+}
+
+function isPostsQuery(query: Query): boolean {
+  const [root] = query.queryKey;
+  return (
+    typeof root === "string" &&
+    (root.startsWith("/api/posts") || root.startsWith("/api/feed") || root.startsWith("/api/tags") || root === "/api/users")
+  );
+}
+
+// Post queries hold posts in several shapes; anything with an id and counts is one.
+function hasPostCounts(item: unknown): item is Pick<Post, "id" | "likesCount" | "commentsCount"> {
+  return typeof item === "object" && item !== null && "id" in item && "likesCount" in item;
+}
+
+function applyPostCounts(event: Extract<RealtimeEvent, { type: "postCounts" }>) {
+  const { postId, likesCount, commentsCount } = event;
+  const patch = <T,>(item: T): T =>
+    hasPostCounts(item) && item.id === postId ? { ...item, likesCount, commentsCount } : item;
+
+  queryClient.setQueriesData({ predicate: isPostsQuery }, (data: unknown) =>
+    Array.isArray(data) ? data.map(patch) : patch(data),
+  );
+}
+
+function applyNotification(event: Extract<RealtimeEvent, { type: "notification" }>) {
+  const { notification, unreadCount } = event;
+  // Grouped notifications keep their id, so an update moves the row to the top.
+  queryClient.setQueryData<NotificationWithActor[]>(["/api/notifications"], (current) =>
+    current ? [notification, ...current.filter((existing) => existing.id !== notification.id)] : current,
+  );
+  queryClient.setQueryData(["/api/notifications/unread-count"], { count: unreadCount });
+}
+
+function applyRental(rental: RentalRequest) {
+  const patch = (item: RentalRequestWithDetails): RentalRequestWithDetails =>
+    item.id === rental.id ? { ...item, ...rental } : item;
+
+  queryClient.setQueryData<RentalRequestWithDetails>(["/api/rentals", rental.id], (item) => item && patch(item));
+  for (const key of ["/api/rentals/incoming", "/api/rentals/my-requests"]) {
+    const list = queryClient.getQueryData<RentalRequestWithDetails[]>([key]);
+    if (!list) continue;
+    if (list.some((item) => item.id === rental.id)) {
+      queryClient.setQueryData([key], list.map(patch));
+    } else {
+      // A request we have not seen yet; its post and people come from the server.
+      queryClient.invalidateQueries({ queryKey: [key] });
+    }
+  }
+}
+
+function handleEvent(event: RealtimeEvent) {
+  switch (event.type) {
+    case "notification":
+      return applyNotification(event);
+    case "postCounts":
+      return applyPostCounts(event);
+    case "rental":
+      return applyRental(event.rental);
+    case "message":
+      return cacheMessage(event.message);
+    case "messagesRead":
+      return cacheConversationRead(event.conversationId, event.readerId, event.readAt);
+  }
+}
+
+// Catches up on anything pushed while the socket was down.
+function refetchMissed() {
+  queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/rentals/incoming"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/rentals/my-requests"] });
+  queryClient.invalidateQueries({ queryKey: inboxKey });
+  queryClient.invalidateQueries({ queryKey: unreadMessagesKey });
+}
+
+function connect() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  socket = ws;
+  setStatus("connecting");
+
+  ws.onopen = () => {
+    retries = 0;
+    setStatus("open");
+    sendSubscriptions();
+    if (hasConnected) refetchMissed();
+    hasConnected = true;
+  };
+
+  ws.onmessage = (message) => {
+    try {
+      handleEvent(JSON.parse(message.data));
+    } catch (error) {
+      console.error("Error handling realtime event:", error);
+    }
+  };
+
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    setStatus("closed");
+    if (stopped) return;
+    const delay = Math.min(1000 * 2 ** retries, MAX_BACKOFF_MS);
+    retries++;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+}
+
+/** Opens the socket, reconnecting with backoff until the returned function is called. */
+export function startRealtime(): () => void {
+  stopped = false;
+  if (!socket) connect();
+  return () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    setStatus("closed");
+  };
+}
@@ -0,0 +1,21 @@
+import type { RentalStatus } from "@shared/schema";
+
+export const rentalActionLabels: Partial<Record<RentalStatus, string>> = {
+  approved: "Approve",
+  declined: "Decline",
+  active: "Mark Picked Up",
+  returned: "Mark Returned",
+  completed: "Confirm Return",
+  cancelled: "Cancel Request",
+};
+
+export const rentalStatusStyles: Record<RentalStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-eco-light text-eco-primary",
+  declined: "bg-gray-100 text-gray-600",
+  active: "bg-blue-100 text-blue-800",
+  overdue: "bg-red-100 text-red-800",
+  returned: "bg-purple-100 text-purple-800",
+  completed: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-600",
+};
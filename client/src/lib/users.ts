@@ -0,0 +1,14 @@
+import type { PublicUser } from "@shared/schema";
+
+type ProfileUser = Pick<PublicUser, "id" | "username">;
+type NamedUser = Pick<PublicUser, "firstName" | "lastName" | "username">;
+
+// Members who have claimed a username get a /u/ link; everyone else is linked by id.
+export function profilePath(user: ProfileUser): string {
+  return user.username ? `/u/${encodeURIComponent(user.username)}` : `/users/${user.id}`;
+}
+
+export function displayName(user: NamedUser): string {
+  if (user.firstName && user.lastName) return `${user.firstName} ${user.lastName}`;
+  return user.username || user.firstName || "ThriftShare member";
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import Navigation from "@/components/navigation";
+import { disputeKindLabels } from "@/components/dispute-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Link } from "wouter";
+import {
+  disputeOutcomes,
+  type DisputeKind,
+  type RentalDisputeWithDetails,
+  type User,
+} from "@shared/schema";
+
+const outcomeLabels: Record<(typeof disputeOutcomes)[number], string> = {
+  claimant_favored: "In favor of claimant",
+  respondent_favored: "In favor of respondent",
+  split: "Split",
+  dismissed: "Dismissed",
+};
+
+const displayName = (user: User) =>
+  user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.username || user.email || "User";
+
+function ResolveForm({ dispute }: { dispute: RentalDisputeWithDetails }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [outcome, setOutcome] = useState<string>("");
+  const [faultUserId, setFaultUserId] = useState<string>("none");
+  const [depositRefund, setDepositRefund] = useState(dispute.rental.securityDeposit || "");
+  const [resolutionNotes, setResolutionNotes] = useState("");
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/disputes/${dispute.id}/resolve`, {
+        outcome,
+        faultUserId: faultUserId === "none" ? null : faultUserId,
+        depositRefund: depositRefund === "" ? null : depositRefund,
+        resolutionNotes,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Claim resolved",
+        description: "Both members can now see the outcome.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/disputes"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to resolve claim",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3 border-t border-gray-200 pt-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs text-gray-600">Outcome</Label>
+          <Select value={outcome} onValueChange={setOutcome}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose" />
+            </SelectTrigger>
+            <SelectContent>
+              {disputeOutcomes.map((o) => (
+                <SelectItem key={o} value={o}>
+                  {outcomeLabels[o]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs text-gray-600">At fault</Label>
+          <Select value={faultUserId} onValueChange={setFaultUserId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Nobody</SelectItem>
+              <SelectItem value={dispute.openedById}>{displayName(dispute.openedBy)}</SelectItem>
+              <SelectItem value={dispute.respondentId}>{displayName(dispute.respondent)}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div>
+        <Label className="text-xs text-gray-600">
+          Deposit refunded to renter (of ${dispute.rental.securityDeposit || "0.00"})
+        </Label>
+        <Input
+          type="number"
+          value={depositRefund}
+          onChange={(e) => setDepositRefund(e.target.value)}
+        />
+      </div>
+      <Textarea
+        placeholder="Notes for both members"
+        value={resolutionNotes}
+        onChange={(e) => setResolutionNotes(e.target.value)}
+        rows={2}
+      />
+      <Button
+        className="w-full bg-eco-primary hover:bg-eco-primary/90"
+        onClick={() => resolveMutation.mutate()}
+        disabled={!outcome || resolveMutation.isPending}
+      >
+        {resolveMutation.isPending ? "Resolving..." : "Resolve"}
+      </Button>
+    </div>
+  );
+}
+
+export default function AdminDisputes() {
+  const { isAuthenticated } = useAuth();
+
+  const { data: disputes, isLoading } = useQuery<RentalDisputeWithDetails[]>({
+    queryKey: ["/api/admin/disputes"],
+    enabled: isAuthenticated,
+  });
+
+  return (
+    <div className="max-w-md mx-auto bg-white min-h-screen relative">
+      <div className="bg-white pb-20">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold">Dispute Queue</h2>
+          <p className="text-sm text-gray-500">Oldest first. Rentals stay frozen until resolved.</p>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {isLoading ? (
+            <div className="animate-pulse h-32 bg-gray-200 rounded-lg"></div>
+          ) : disputes && disputes.length > 0 ? (
+            disputes.map((dispute) => (
+              <Card key={dispute.id} className="border border-gray-200">
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-gray-900">
+                      {disputeKindLabels[dispute.kind as DisputeKind] || dispute.kind}
+                    </span>
+                    <Badge variant="secondary" className="capitalize">{dispute.status}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {displayName(dispute.openedBy)} vs {displayName(dispute.respondent)} ·{" "}
+                    <Link href={`/rentals/${dispute.rentalId}`} className="underline">
+                      rental
+                    </Link>
+                  </p>
+                  <p className="text-sm text-gray-700">{dispute.description}</p>
+                  {dispute.response && (
+                    <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-2">{dispute.response}</p>
+                  )}
+                  <ResolveForm dispute={dispute} />
+                </CardContent>
+              </Card>
+            ))
+          ) : (
+            <div className="text-center py-8 text-gray-500">No open disputes</div>
+          )}
+        </div>
+      </div>
+
+      <Navigation />
+    </div>
+  );
+}
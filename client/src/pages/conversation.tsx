@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { cacheConversationRead, cacheMessage, fetchPage, threadKey } from "@/lib/messages";
+import { displayName, profilePath } from "@/lib/users";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ArrowLeft, Calendar, Send } from "lucide-react";
+import type { ConversationSummary, Message } from "@shared/schema";
+
+export default function Conversation() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data: conversation, isLoading: conversationLoading } = useQuery<ConversationSummary>({
+    queryKey: ["/api/conversations", id],
+  });
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: threadKey(id),
+    queryFn: ({ pageParam }) => fetchPage<Message>(`/api/conversations/${id}/messages`, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  // Pages come newest first; the thread reads oldest to newest.
+  const messages = (data?.pages.flatMap((page) => page.items) ?? []).reverse();
+  const newest = messages[messages.length - 1];
+  const lastOwn = [...messages].reverse().find((message) => message.senderId === user?.id);
+  const hasUnread = messages.some((message) => message.senderId !== user?.id && !message.readAt);
+
+  const onError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const response = await apiRequest("POST", `/api/conversations/${id}/messages`, { body: text });
+      return response.json() as Promise<Message>;
+    },
+    onSuccess: (message) => {
+      setBody("");
+      cacheMessage(message);
+    },
+    onError: (error) => onError(error, "Failed to send message"),
+  });
+
+  const readMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/conversations/${id}/read`);
+    },
+    onSuccess: () => {
+      if (user) cacheConversationRead(id, user.id, new Date());
+    },
+  });
+
+  useEffect(() => {
+    if (hasUnread && !readMutation.isPending) readMutation.mutate();
+  }, [hasUnread, newest?.id]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [newest?.id]);
+
+  const send = () => {
+    const text = body.trim();
+    if (text && !sendMutation.isPending) sendMutation.mutate(text);
+  };
+
+  const otherUser = conversation?.otherUser;
+
+  return (
+    <div className="max-w-md mx-auto bg-white min-h-screen relative flex flex-col">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
+        <div className="flex items-center px-4 py-3 space-x-3">
+          <Button variant="ghost" size="icon" onClick={() => setLocation("/messages")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          {otherUser && (
+            <Link href={profilePath(otherUser)}>
+              <div className="flex items-center space-x-2 cursor-pointer">
+                <Avatar className="w-8 h-8">
+                  <AvatarImage src={otherUser.profileImageUrl || ""} />
+                  <AvatarFallback>{otherUser.firstName?.[0] || otherUser.username?.[0] || "U"}</AvatarFallback>
+                </Avatar>
+                <h1 className="text-lg font-semibold text-gray-900">{displayName(otherUser)}</h1>
+              </div>
+            </Link>
+          )}
+        </div>
+      </header>
+
+      <main className="flex-1 px-4 py-3 space-y-2">
+        {isLoading || conversationLoading ? (
+          <div className="p-8 flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-eco-primary"></div>
+          </div>
+        ) : !conversation ? (
+          <div className="p-8 text-center text-gray-500">Conversation not found</div>
+        ) : messages.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">Say hello to {displayName(conversation.otherUser)}</div>
+        ) : (
+          <>
+            {hasNextPage && (
+              <div className="text-center">
+                <Button variant="ghost" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  Load earlier messages
+                </Button>
+              </div>
+            )}
+            {messages.map((message) => {
+              const own = message.senderId === user?.id;
+              return (
+                <div key={message.id} className={`flex flex-col ${own ? "items-end" : "items-start"}`}>
+                  {message.rentalId && (
+                    <Link href={`/rentals/${message.rentalId}`}>
+                      <span className="flex items-center text-xs text-eco-primary mb-1 cursor-pointer">
+                        <Calendar className="h-3 w-3 mr-1" />
+                        About a rental request
+                      </span>
+                    </Link>
+                  )}
+                  <div
+                    className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm whitespace-pre-wrap break-words ${
+                      own ? "bg-eco-primary text-white" : "bg-gray-100 text-gray-900"
+                    }`}
+                  >
+                    {message.body}
+                  </div>
+                  <span className="text-[10px] text-gray-400 mt-0.5">
+                    {message.createdAt && format(new Date(message.createdAt), "MMM d, h:mm a")}
+                    {message.id === lastOwn?.id && (message.readAt ? " · Seen" : " · Sent")}
+                  </span>
+                </div>
+              );
+            })}
+          </>
+        )}
+        <div ref={bottomRef} />
+      </main>
+
+      {conversation && (
+        <form
+          className="sticky bottom-0 bg-white border-t border-gray-200 p-3 flex items-end space-x-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            send();
+          }}
+        >
+          <Textarea
+            value={body}
+            onChange={(event) => setBody(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" && !event.shiftKey) {
+                event.preventDefault();
+                send();
+              }
+            }}
+            placeholder="Write a message..."
+            rows={1}
+            maxLength={2000}
+            className="min-h-10 resize-none"
+          />
+          <Button
+            type="submit"
+            size="icon"
+            className="bg-eco-primary hover:bg-eco-primary/90 flex-shrink-0"
+            disabled={!body.trim() || sendMutation.isPending}
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
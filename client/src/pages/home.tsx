@@ -1,13 +1,15 @@
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtimeStatus } from "@/hooks/useRealtime";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import Navigation from "@/components/navigation";
 import PostCard from "@/components/post-card";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Plus, Bell, MessageCircle } from "lucide-react";
 import { PostWithUser } from "@shared/schema";
 import { Link } from "wouter";
@@ -15,12 +17,27 @@ import { Link } from "wouter";
 export default function Home() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
+  const [feed, setFeed] = useState<"following" | "discover">("following");
+  const realtimeStatus = useRealtimeStatus();
 
   const { data: posts, isLoading: postsLoading } = useQuery<PostWithUser[]>({
-    queryKey: ["/api/posts"],
+    queryKey: feed === "following" ? ["/api/feed/following"] : ["/api/posts"],
     enabled: isAuthenticated,
   });
 
+  // Both badges are pushed over the socket while it is open and polled while it is not.
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+    enabled: isAuthenticated,
+    refetchInterval: realtimeStatus === "open" ? false : 60 * 1000,
+  });
+
+  const { data: unreadMessages } = useQuery<{ count: number }>({
+    queryKey: ["/api/messages/unread-count"],
+    enabled: isAuthenticated,
+    refetchInterval: realtimeStatus === "open" ? false : 60 * 1000,
+  });
+
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       toast({
@@ -55,12 +72,26 @@ export default function Home() {
             <h1 className="text-xl font-bold text-gray-900">ThriftShare</h1>
           </div>
           <div className="flex items-center space-x-4">
-            <Button variant="ghost" size="icon">
-              <Bell className="h-5 w-5 text-gray-700" />
-            </Button>
-            <Button variant="ghost" size="icon">
-              <MessageCircle className="h-5 w-5 text-gray-700" />
-            </Button>
+            <Link href="/notifications">
+              <Button variant="ghost" size="icon" className="relative">
+                <Bell className="h-5 w-5 text-gray-700" />
+                {unread && unread.count > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+                    {unread.count > 99 ? "99+" : unread.count}
+                  </span>
+                )}
+              </Button>
+            </Link>
+            <Link href="/messages">
+              <Button variant="ghost" size="icon" className="relative">
+                <MessageCircle className="h-5 w-5 text-gray-700" />
+                {unreadMessages && unreadMessages.count > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+                    {unreadMessages.count > 99 ? "99+" : unreadMessages.count}
+                  </span>
+                )}
+              </Button>
+            </Link>
           </div>
         </div>
       </header>
@@ -100,6 +131,14 @@ export default function Home() {
         </div>
       </div>
 
+      {/* Feed Switcher */}
+      <Tabs value={feed} onValueChange={(value) => setFeed(value as typeof feed)} className="px-4 pt-3">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="following">Following</TabsTrigger>
+          <TabsTrigger value="discover">Discover</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
       {/* Posts Feed */}
       <main className="pb-20">
         {postsLoading ? (
@@ -131,6 +170,16 @@ export default function Home() {
               <PostCard key={post.id} post={post} />
             ))}
           </div>
+        ) : feed === "following" ? (
+          <div className="p-8 text-center">
+            <div className="text-gray-500 mb-4">Follow people to see their finds here</div>
+            <Button
+              className="bg-eco-primary hover:bg-eco-primary/90"
+              onClick={() => setFeed("discover")}
+            >
+              Discover People
+            </Button>
+          </div>
         ) : (
           <div className="p-8 text-center">
             <div className="text-gray-500 mb-4">No posts yet</div>
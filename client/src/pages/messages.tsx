@@ -0,0 +1,99 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchPage, inboxKey } from "@/lib/messages";
+import { displayName } from "@/lib/users";
+import Navigation from "@/components/navigation";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ArrowLeft } from "lucide-react";
+import type { ConversationSummary } from "@shared/schema";
+
+export default function Messages() {
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: inboxKey,
+    queryFn: ({ pageParam }) => fetchPage<ConversationSummary>("/api/conversations", pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const conversations = data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <div className="max-w-md mx-auto bg-white min-h-screen relative">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
+        <div className="flex items-center px-4 py-3 space-x-3">
+          <Button variant="ghost" size="icon" onClick={() => setLocation("/")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-bold text-gray-900">Messages</h1>
+        </div>
+      </header>
+
+      <main className="pb-20">
+        {isLoading ? (
+          <div className="p-8 flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-eco-primary"></div>
+          </div>
+        ) : conversations.length > 0 ? (
+          <div className="divide-y divide-gray-100">
+            {conversations.map((conversation) => (
+              <button
+                key={conversation.id}
+                type="button"
+                onClick={() => setLocation(`/messages/${conversation.id}`)}
+                className="w-full flex items-center space-x-3 p-4 text-left"
+              >
+                <Avatar className="w-12 h-12">
+                  <AvatarImage src={conversation.otherUser.profileImageUrl || ""} />
+                  <AvatarFallback>
+                    {conversation.otherUser.firstName?.[0] || conversation.otherUser.username?.[0] || "U"}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <p className={`text-sm truncate ${conversation.unreadCount > 0 ? "font-semibold text-gray-900" : "text-gray-900"}`}>
+                      {displayName(conversation.otherUser)}
+                    </p>
+                    {conversation.lastMessage?.createdAt && (
+                      <span className="text-xs text-gray-500 ml-2 flex-shrink-0">
+                        {formatDistanceToNow(new Date(conversation.lastMessage.createdAt), { addSuffix: true })}
+                      </span>
+                    )}
+                  </div>
+                  <p className={`text-sm truncate ${conversation.unreadCount > 0 ? "text-gray-900" : "text-gray-500"}`}>
+                    {conversation.lastMessage
+                      ? `${conversation.lastMessage.senderId === user?.id ? "You: " : ""}${conversation.lastMessage.body}`
+                      : "No messages yet"}
+                  </p>
+                </div>
+                {conversation.unreadCount > 0 && (
+                  <span className="min-w-5 h-5 px-1.5 rounded-full bg-eco-primary text-white text-xs leading-5 text-center flex-shrink-0">
+                    {conversation.unreadCount}
+                  </span>
+                )}
+              </button>
+            ))}
+            {hasNextPage && (
+              <div className="p-4 text-center">
+                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="p-8 text-center text-gray-500">
+            No conversations yet. Message someone from their profile or a rental.
+          </div>
+        )}
+      </main>
+
+      <Navigation />
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { profilePath } from "@/lib/users";
+import Navigation from "@/components/navigation";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ArrowLeft, Award, Bell, Calendar } from "lucide-react";
+import type { NotificationWithActor } from "@shared/schema";
+
+// Where tapping a notification takes you.
+function notificationPath(notification: NotificationWithActor): string {
+  if (notification.rentalId) return `/rentals/${notification.rentalId}`;
+  if (notification.postId) return `/post/${notification.postId}`;
+  if (notification.type === "follow" && notification.actor) return profilePath(notification.actor);
+  if (notification.type === "badge_earned") return "/profile";
+  return "/notifications";
+}
+
+function NotificationIcon({ notification }: { notification: NotificationWithActor }) {
+  if (notification.actor) {
+    return (
+      <Avatar className="w-10 h-10">
+        <AvatarImage src={notification.actor.profileImageUrl || ""} />
+        <AvatarFallback>{notification.actor.firstName?.[0] || notification.actor.username?.[0] || "U"}</AvatarFallback>
+      </Avatar>
+    );
+  }
+  const Icon = notification.type === "badge_earned" ? Award : notification.rentalId ? Calendar : Bell;
+  return (
+    <div className="w-10 h-10 rounded-full bg-eco-light flex items-center justify-center">
+      <Icon className="w-5 h-5 text-eco-primary" />
+    </div>
+  );
+}
+
+export default function Notifications() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: notifications, isLoading } = useQuery<NotificationWithActor[]>({
+    queryKey: ["/api/notifications"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+  };
+
+  const onError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: "Failed to update notifications",
+      variant: "destructive",
+    });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const open = (notification: NotificationWithActor) => {
+    if (!notification.readAt) markReadMutation.mutate(notification.id);
+    setLocation(notificationPath(notification));
+  };
+
+  const hasUnread = notifications?.some((notification) => !notification.readAt);
+
+  return (
+    <div className="max-w-md mx-auto bg-white min-h-screen relative">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
+        <div className="flex items-center justify-between px-4 py-3">
+          <div className="flex items-center space-x-3">
+            <Button variant="ghost" size="icon" onClick={() => setLocation("/")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-xl font-bold text-gray-900">Notifications</h1>
+          </div>
+          {hasUnread && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-eco-primary"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="pb-20">
+        {isLoading ? (
+          <div className="p-8 flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-eco-primary"></div>
+          </div>
+        ) : notifications && notifications.length > 0 ? (
+          <div className="divide-y divide-gray-100">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => open(notification)}
+                className={`w-full flex items-start space-x-3 p-4 text-left ${notification.readAt ? "" : "bg-eco-light/40"}`}
+              >
+                <NotificationIcon notification={notification} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900">{notification.text}</p>
+                  {notification.createdAt && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+                {!notification.readAt && <span className="w-2 h-2 mt-2 rounded-full bg-eco-primary flex-shrink-0" />}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="p-8 text-center text-gray-500">You're all caught up</div>
+        )}
+      </main>
+
+      <Navigation />
+    </div>
+  );
+}
@@ -1,9 +1,16 @@
-import { useParams } from "wouter";
+import { Link, useParams } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { usePostSubscription } from "@/hooks/useRealtime";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
+import { displayName, profilePath } from "@/lib/users";
+import RentalRequestDialog from "@/components/rental-request-dialog";
+import CommentSection from "@/components/comment-section";
+import PostOwnerMenu from "@/components/post-owner-menu";
+import PostGallery from "@/components/post-gallery";
+import RichText, { tagPath } from "@/components/rich-text";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -23,6 +30,8 @@ export default function PostView() {
     queryKey: ["/api/posts", id],
     enabled: !!id && isAuthenticated,
   });
+  usePostSubscription(id);
+
 
   const likeMutation = useMutation({
     mutationFn: async () => {
@@ -32,6 +41,7 @@ export default function PostView() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/posts", id] });
       queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed/following"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -53,50 +63,6 @@ export default function PostView() {
     },
   });
 
-  const requestRentalMutation = useMutation({
-    mutationFn: async () => {
-      const today = new Date();
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      const nextWeek = new Date(today);
-      nextWeek.setDate(nextWeek.getDate() + 7);
-
-      const response = await apiRequest("POST", "/api/rentals/request", {
-        postId: id,
-        ownerId: post?.userId,
-        startDate: tomorrow.toISOString(),
-        endDate: nextWeek.toISOString(),
-        message: `Hi! I'd love to rent this item. Would it be available?`,
-        totalPrice: "0",
-      });
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Rental request sent! The owner will be notified.",
-      });
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      toast({
-        title: "Error",
-        description: "Failed to send rental request",
-        variant: "destructive",
-      });
-    },
-  });
-
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -146,42 +112,39 @@ export default function PostView() {
       {/* Post Content */}
       <div className="bg-white">
         <div className="flex items-center justify-between p-4">
-          <div className="flex items-center space-x-3">
+          <Link href={profilePath(post.user)} className="flex items-center space-x-3">
             <Avatar className="w-12 h-12">
               <AvatarImage src={post.user.profileImageUrl || ""} />
               <AvatarFallback>
-                {post.user.firstName?.[0] || post.user.email?.[0] || "U"}
+                {post.user.firstName?.[0] || post.user.username?.[0] || "U"}
               </AvatarFallback>
             </Avatar>
             <div>
               <h3 className="font-semibold text-gray-900">
-                {post.user.firstName && post.user.lastName 
-                  ? `${post.user.firstName} ${post.user.lastName}`
-                  : post.user.username || post.user.email
-                }
+                {displayName(post.user)}
               </h3>
               <p className="text-xs text-gray-500">
                 {post.user.location && `${post.user.location} • `}
                 {formatTime(post.createdAt)}
               </p>
             </div>
-          </div>
+          </Link>
           <div className="flex items-center space-x-2">
             <Badge className="bg-eco-light text-eco-primary text-xs px-2 py-1 rounded-full font-medium">
               ♻️ Eco Star
             </Badge>
-            <Button variant="ghost" size="icon">
-              <MoreHorizontal className="h-4 w-4" />
-            </Button>
+            {post.userId === user?.id ? (
+              <PostOwnerMenu post={post} onDeleted={() => setLocation("/")} />
+            ) : (
+              <Button variant="ghost" size="icon">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
 
         {/* Full Size Image */}
-        <img 
-          src={post.imageUrl} 
-          alt="Thrift outfit post" 
-          className="w-full h-96 object-cover"
-        />
+        <PostGallery post={post} imageClassName="h-96" />
 
         {/* Post Details */}
         <div className="p-4">
@@ -213,22 +176,23 @@ export default function PostView() {
           </div>
 
           <div className="mb-4">
-            <span className="font-semibold text-gray-900">
+            <Link href={profilePath(post.user)} className="font-semibold text-gray-900">
               {post.user.username || post.user.firstName || "user"}
-            </span>
-            <span className="text-gray-900 ml-2">{post.caption}</span>
+            </Link>
+            {post.caption && <RichText text={post.caption} className="text-gray-900 ml-2" />}
           </div>
 
           {post.tags && post.tags.length > 0 && (
             <div className="flex flex-wrap gap-2 mb-4">
               {post.tags.map((tag, index) => (
-                <Badge 
-                  key={index} 
-                  variant="secondary" 
-                  className="bg-eco-light text-eco-primary text-sm px-3 py-1 rounded-full"
-                >
-                  {tag.startsWith('#') ? tag : `#${tag}`}
-                </Badge>
+                <Link key={index} href={tagPath(tag)}>
+                  <Badge 
+                    variant="secondary" 
+                    className="bg-eco-light text-eco-primary text-sm px-3 py-1 rounded-full"
+                  >
+                    {tag.startsWith('#') ? tag : `#${tag}`}
+                  </Badge>
+                </Link>
               ))}
             </div>
           )}
@@ -291,26 +255,28 @@ export default function PostView() {
                   <div>
                     <h4 className="font-semibold text-eco-primary">Available for Rent</h4>
                     <p className="text-sm text-gray-600">
-                      ${post.rentPrice || "12"}/day
+                      ${post.rentPrice || "0"}/day
                       {post.size && ` • Size ${post.size}`}
                     </p>
                   </div>
-                  <Button 
-                    className="bg-eco-primary hover:bg-eco-primary/90"
-                    onClick={() => requestRentalMutation.mutate()}
-                    disabled={requestRentalMutation.isPending || post.userId === user?.id}
-                  >
-                    {requestRentalMutation.isPending 
-                      ? "Requesting..." 
-                      : post.userId === user?.id 
-                        ? "Your Item" 
-                        : "Rent This"
-                    }
-                  </Button>
+                  {post.userId === user?.id ? (
+                    <Button className="bg-eco-primary hover:bg-eco-primary/90" disabled>
+                      Your Item
+                    </Button>
+                  ) : (
+                    <RentalRequestDialog post={post}>
+                      <Button className="bg-eco-primary hover:bg-eco-primary/90">
+                        Rent This
+                      </Button>
+                    </RentalRequestDialog>
+                  )}
                 </div>
               </CardContent>
             </Card>
           )}
+
+          {/* Comments */}
+          <CommentSection postId={post.id} postOwnerId={post.userId} />
         </div>
       </div>
     </div>
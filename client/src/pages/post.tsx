@@ -1,10 +1,14 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useDraftAutosave, type DraftSaveStatus } from "@/hooks/useDraftAutosave";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
+import { draftsKey, emptyPostForm, formFromPost, type PostForm } from "@/lib/drafts";
 import Navigation from "@/components/navigation";
+import PhotoListEditor, { photosFromFiles, photosOf, type EditablePhoto } from "@/components/photo-list-editor";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -12,86 +16,135 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { Camera, ArrowLeft } from "lucide-react";
-import { useLocation } from "wouter";
+import { useLocation, useParams } from "wouter";
+import { MAX_POST_IMAGES, type PostWithUser, type TrendingTag } from "@shared/schema";
 
+const saveStatusText: Record<DraftSaveStatus, string> = {
+  idle: "",
+  saving: "Saving draft...",
+  saved: "Draft saved",
+  error: "Couldn't save the draft",
+  published: "This post is already live",
+};
+
+// The composer, at /post for a new post and /drafts/:id to pick a draft back up.
+// Everything is saved as a draft as you go; sharing publishes it.
 export default function Post() {
   const [, setLocation] = useLocation();
+  const params = useParams<{ id?: string }>();
+  const resumingId = params.id ?? null;
   const { user, isAuthenticated } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const [formData, setFormData] = useState({
-    caption: "",
-    thriftStore: "",
-    pricePaid: "",
-    originalBrand: "",
-    size: "",
-    tags: "",
-    availableForRent: false,
-    rentPrice: "",
+  const [formData, setFormData] = useState<PostForm>(emptyPostForm);
+  const [photos, setPhotos] = useState<EditablePhoto[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const { data: draft } = useQuery<PostWithUser>({
+    queryKey: ["/api/posts", resumingId],
+    enabled: !!resumingId,
+  });
+
+  useEffect(() => {
+    if (!draft || loaded) return;
+    if (draft.status !== "draft") {
+      setLocation(`/post/${draft.id}`);
+      return;
+    }
+    setFormData(formFromPost(draft));
+    setPhotos(photosOf(draft.images));
+    setLoaded(true);
+  }, [draft]);
+
+  const autosave = useDraftAutosave({
+    draftId: resumingId,
+    form: formData,
+    photos,
+    setPhotos,
+    ready: !resumingId || loaded,
   });
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
 
-  const createPostMutation = useMutation({
-    mutationFn: async (data: FormData) => {
-      const response = await fetch("/api/posts", {
-        method: "POST",
-        body: data,
-        credentials: "include",
+  // The scheduler published the draft while it was open here.
+  useEffect(() => {
+    if (autosave.status !== "published" || !autosave.draftId) return;
+    toast({ title: "Already shared", description: "This post went live at its scheduled time." });
+    queryClient.invalidateQueries({ queryKey: draftsKey });
+    setLocation(`/post/${autosave.draftId}`);
+  }, [autosave.status]);
+
+  const onError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
       });
-      
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`${response.status}: ${error}`);
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    // Validation errors come back as `400: {"message": ...}`.
+    const match = error.message.match(/^400: (.*)$/);
+    let description = fallback;
+    if (match) {
+      try {
+        description = JSON.parse(match[1]).message ?? description;
+      } catch {
+        // Not JSON; keep the generic message.
+      }
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const refreshPosts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/feed/following"] });
+    queryClient.invalidateQueries({ queryKey: draftsKey });
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const id = await autosave.flush();
+      if (!id) throw new Error("Draft was not saved");
+      // A scheduled draft is published by the server when its time comes.
+      if (!formData.publishAt) {
+        await apiRequest("POST", `/api/posts/${id}/publish`);
       }
-      
-      return response.json();
     },
     onSuccess: () => {
+      autosave.stop();
       toast({
         title: "Success",
-        description: "Your thrift find has been shared!",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
-      setLocation("/");
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      toast({
-        title: "Error",
-        description: "Failed to create post. Please try again.",
-        variant: "destructive",
+        description: formData.publishAt
+          ? `Your post will be shared on ${format(new Date(formData.publishAt), "MMM d 'at' h:mm a")}.`
+          : "Your thrift find has been shared!",
       });
+      refreshPosts();
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      setLocation(formData.publishAt ? "/profile" : "/");
     },
+    onError: (error) => onError(error, "Failed to create post. Please try again."),
   });
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedImage(file);
-      const reader = new FileReader();
-      reader.onload = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
-  };
+  const discardMutation = useMutation({
+    mutationFn: async (id: string) => {
+      autosave.stop();
+      await apiRequest("DELETE", `/api/posts/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Draft discarded" });
+      refreshPosts();
+      setLocation("/profile");
+    },
+    onError: (error) => onError(error, "Failed to discard draft"),
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!selectedImage) {
+    if (photos.length === 0) {
       toast({
         title: "Error",
         description: "Please select an image",
@@ -100,23 +153,13 @@ export default function Post() {
       return;
     }
 
-    const submitData = new FormData();
-    submitData.append("image", selectedImage);
-    submitData.append("caption", formData.caption);
-    submitData.append("thriftStore", formData.thriftStore);
-    submitData.append("pricePaid", formData.pricePaid);
-    submitData.append("originalBrand", formData.originalBrand);
-    submitData.append("size", formData.size);
-    submitData.append("tags", formData.tags);
-    submitData.append("availableForRent", formData.availableForRent.toString());
-    if (formData.availableForRent && formData.rentPrice) {
-      submitData.append("rentPrice", formData.rentPrice);
-    }
-
-    createPostMutation.mutate(submitData);
+    publishMutation.mutate();
   };
 
-  const suggestedTags = ["#vintage", "#denim", "#sustainable", "#thrifted", "#eco", "#secondhand"];
+  const { data: trendingTags } = useQuery<TrendingTag[]>({
+    queryKey: ["/api/tags/trending?limit=8"],
+  });
+  const suggestedTags = trendingTags?.map((entry) => `#${entry.tag}`) || [];
 
   return (
     <div className="max-w-md mx-auto bg-white min-h-screen relative">
@@ -130,9 +173,12 @@ export default function Post() {
           >
             <ArrowLeft className="h-5 w-5" />
           </Button>
-          <h2 className="text-lg font-semibold">Share Your Find</h2>
+          <h2 className="text-lg font-semibold">{resumingId ? "Your Draft" : "Share Your Find"}</h2>
           <div className="w-10" />
         </div>
+        <p className="px-4 pt-2 text-xs text-gray-500 h-6">
+          {photos.length === 0 ? "Add a photo and your post is saved as a draft as you go." : saveStatusText[autosave.status]}
+        </p>
 
         <form onSubmit={handleSubmit} className="p-4 space-y-6">
           {/* Image Upload */}
@@ -140,33 +186,30 @@ export default function Post() {
             <Label className="text-sm font-medium text-gray-700 mb-2 block">
               Upload Photos
             </Label>
-            <div className="relative">
-              <input
-                type="file"
-                accept="image/*"
-                onChange={handleImageChange}
-                className="hidden"
-                id="image-upload"
-              />
-              <label
-                htmlFor="image-upload"
-                className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center cursor-pointer hover:border-eco-primary transition-colors block"
-              >
-                {imagePreview ? (
-                  <img 
-                    src={imagePreview} 
-                    alt="Preview" 
-                    className="w-full h-48 object-cover rounded-lg"
-                  />
-                ) : (
-                  <>
-                    <Camera className="text-gray-400 text-3xl mb-2 mx-auto" />
-                    <p className="text-gray-500">Tap to add photos</p>
-                    <p className="text-xs text-gray-400 mt-1">Share up to 10 photos</p>
-                  </>
-                )}
-              </label>
-            </div>
+            {photos.length === 0 ? (
+              <div className="relative">
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={async (e) => {
+                    setPhotos(await photosFromFiles(e.target.files));
+                  }}
+                  className="hidden"
+                  id="image-upload"
+                />
+                <label
+                  htmlFor="image-upload"
+                  className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center cursor-pointer hover:border-eco-primary transition-colors block"
+                >
+                  <Camera className="text-gray-400 text-3xl mb-2 mx-auto" />
+                  <p className="text-gray-500">Tap to add photos</p>
+                  <p className="text-xs text-gray-400 mt-1">Share up to {MAX_POST_IMAGES} photos</p>
+                </label>
+              </div>
+            ) : (
+              <PhotoListEditor photos={photos} onChange={setPhotos} />
+            )}
           </div>
 
           {/* Caption */}
@@ -234,15 +277,67 @@ export default function Post() {
           </div>
 
           {formData.availableForRent && (
-            <div>
-              <Label htmlFor="rentPrice">Rental Price (per day)</Label>
-              <Input
-                id="rentPrice"
-                type="number"
-                placeholder="15.00"
-                value={formData.rentPrice}
-                onChange={(e) => setFormData({ ...formData, rentPrice: e.target.value })}
-              />
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="rentPrice">Price per day</Label>
+                <Input
+                  id="rentPrice"
+                  type="number"
+                  placeholder="15.00"
+                  value={formData.rentPrice}
+                  onChange={(e) => setFormData({ ...formData, rentPrice: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rentWeeklyPrice">Price per week</Label>
+                <Input
+                  id="rentWeeklyPrice"
+                  type="number"
+                  placeholder="Optional"
+                  value={formData.rentWeeklyPrice}
+                  onChange={(e) => setFormData({ ...formData, rentWeeklyPrice: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rentMinDays">Minimum days</Label>
+                <Input
+                  id="rentMinDays"
+                  type="number"
+                  placeholder="1"
+                  value={formData.rentMinDays}
+                  onChange={(e) => setFormData({ ...formData, rentMinDays: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rentCleaningFee">Cleaning fee</Label>
+                <Input
+                  id="rentCleaningFee"
+                  type="number"
+                  placeholder="0.00"
+                  value={formData.rentCleaningFee}
+                  onChange={(e) => setFormData({ ...formData, rentCleaningFee: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rentDeposit">Refundable deposit</Label>
+                <Input
+                  id="rentDeposit"
+                  type="number"
+                  placeholder="0.00"
+                  value={formData.rentDeposit}
+                  onChange={(e) => setFormData({ ...formData, rentDeposit: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rentLateFee">Late fee per day</Label>
+                <Input
+                  id="rentLateFee"
+                  type="number"
+                  placeholder="Daily price"
+                  value={formData.rentLateFee}
+                  onChange={(e) => setFormData({ ...formData, rentLateFee: e.target.value })}
+                />
+              </div>
             </div>
           )}
 
@@ -300,14 +395,44 @@ export default function Post() {
             </CardContent>
           </Card>
 
+          {/* Scheduling */}
+          <div>
+            <Label htmlFor="publishAt">Publish later</Label>
+            <Input
+              id="publishAt"
+              type="datetime-local"
+              min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+              value={formData.publishAt}
+              onChange={(e) => setFormData({ ...formData, publishAt: e.target.value })}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Leave empty to share now. Eco points are credited when the post goes live.
+            </p>
+          </div>
+
           {/* Submit Button */}
           <Button 
             type="submit" 
             className="w-full bg-eco-primary hover:bg-eco-primary/90"
-            disabled={createPostMutation.isPending}
+            disabled={publishMutation.isPending || discardMutation.isPending}
           >
-            {createPostMutation.isPending ? "Sharing..." : "Share Your Find"}
+            {publishMutation.isPending
+              ? "Sharing..."
+              : formData.publishAt
+                ? "Schedule Post"
+                : "Share Your Find"}
           </Button>
+          {autosave.draftId && (
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full text-red-600"
+              disabled={publishMutation.isPending || discardMutation.isPending}
+              onClick={() => discardMutation.mutate(autosave.draftId!)}
+            >
+              Discard draft
+            </Button>
+          )}
         </form>
       </div>
 
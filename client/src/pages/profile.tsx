@@ -1,27 +1,55 @@
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useMute } from "@/hooks/useMute";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { useEffect } from "react";
+import { format } from "date-fns";
 import Navigation from "@/components/navigation";
+import FollowButton from "@/components/follow-button";
+import MessageButton from "@/components/message-button";
+import FollowListDialog from "@/components/follow-list-dialog";
+import EditProfileSheet from "@/components/edit-profile-sheet";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Post, UserWithStats } from "@shared/schema";
+import { Link, useLocation, useParams } from "wouter";
+import { displayName } from "@/lib/users";
+import { draftsKey } from "@/lib/drafts";
+import { Post, PostWithImages, PublicProfile } from "@shared/schema";
 
+// Renders the signed-in user's own profile at /profile and anyone's public
+// profile at /u/:username or /users/:id.
 export default function Profile() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const params = useParams<{ id?: string; username?: string }>();
+  const isOwnProfile = params.username
+    ? params.username === user?.username
+    : !params.id || params.id === user?.id;
 
-  const { data: userProfile } = useQuery<UserWithStats>({
-    queryKey: ["/api/auth/user"],
+  const { data: userProfile, isLoading: profileLoading } = useQuery<PublicProfile>({
+    queryKey: isOwnProfile
+      ? ["/api/auth/user"]
+      : params.username
+        ? ["/api/users/by-username", params.username]
+        : ["/api/users", params.id],
     enabled: isAuthenticated,
   });
+  const profileId = isOwnProfile ? user?.id : userProfile?.id;
+  const muteMutation = useMute(profileId ?? "");
 
   const { data: userPosts } = useQuery<Post[]>({
-    queryKey: ["/api/posts/user", user?.id],
-    enabled: isAuthenticated && !!user?.id,
+    queryKey: ["/api/posts/user", profileId],
+    enabled: isAuthenticated && !!profileId,
+  });
+
+  // Drafts are only ever shown to their author.
+  const { data: drafts = [] } = useQuery<PostWithImages[]>({
+    queryKey: draftsKey,
+    enabled: isAuthenticated && isOwnProfile,
   });
 
   useEffect(() => {
@@ -38,7 +66,7 @@ export default function Profile() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
-  if (isLoading || !userProfile) {
+  if (isLoading || profileLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-eco-primary"></div>
@@ -46,6 +74,19 @@ export default function Profile() {
     );
   }
 
+  if (!userProfile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">User not found</h2>
+          <Button onClick={() => setLocation("/")}>Go back to feed</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const rentableItems = userPosts?.filter((post) => post.availableForRent) || [];
+
   return (
     <div className="max-w-md mx-auto bg-white min-h-screen relative">
       <div className="bg-white pb-20">
@@ -54,16 +95,16 @@ export default function Profile() {
           <Avatar className="w-24 h-24 mx-auto mb-4">
             <AvatarImage src={userProfile.profileImageUrl || ""} />
             <AvatarFallback className="text-xl">
-              {userProfile.firstName?.[0] || userProfile.email?.[0] || "U"}
+              {userProfile.firstName?.[0] || userProfile.username?.[0] || "U"}
             </AvatarFallback>
           </Avatar>
           
-          <h2 className="text-xl font-bold text-gray-900 mb-2">
-            {userProfile.firstName && userProfile.lastName 
-              ? `${userProfile.firstName} ${userProfile.lastName}`
-              : userProfile.username || userProfile.email
-            }
+          <h2 className="text-xl font-bold text-gray-900 mb-1">
+            {displayName(userProfile)}
           </h2>
+          {userProfile.username && (
+            <p className="text-sm text-gray-500 mb-2">@{userProfile.username}</p>
+          )}
           
           <p className="text-gray-600 mb-2">
             {userProfile.bio || "Sustainable fashion advocate | Thrift enthusiast | Planet lover 🌱"}
@@ -72,6 +113,14 @@ export default function Profile() {
           {userProfile.location && (
             <p className="text-sm text-gray-500 mb-4">📍 {userProfile.location}</p>
           )}
+
+          {userProfile.reputation.reviewCount > 0 && (
+            <p className="text-sm text-gray-600 mb-4">
+              ⭐ {userProfile.reputation.averageRating?.toFixed(1)} from {userProfile.reputation.reviewCount} rental{" "}
+              {userProfile.reputation.reviewCount === 1 ? "review" : "reviews"}
+              {userProfile.reputation.disputesLost > 0 && ` · ${userProfile.reputation.disputesLost} lost claim${userProfile.reputation.disputesLost > 1 ? "s" : ""}`}
+            </p>
+          )}
           
           <div className="flex justify-center space-x-8 mb-4">
             <div className="text-center">
@@ -80,36 +129,58 @@ export default function Profile() {
               </span>
               <span className="text-sm text-gray-500">Posts</span>
             </div>
-            <div className="text-center">
-              <span className="block text-xl font-bold text-gray-900">
-                {userProfile.followersCount}
-              </span>
-              <span className="text-sm text-gray-500">Followers</span>
-            </div>
-            <div className="text-center">
-              <span className="block text-xl font-bold text-gray-900">
-                {userProfile.followingCount}
-              </span>
-              <span className="text-sm text-gray-500">Following</span>
-            </div>
+            <FollowListDialog userId={userProfile.id} kind="followers">
+              <button className="text-center">
+                <span className="block text-xl font-bold text-gray-900">
+                  {userProfile.followersCount}
+                </span>
+                <span className="text-sm text-gray-500">Followers</span>
+              </button>
+            </FollowListDialog>
+            <FollowListDialog userId={userProfile.id} kind="following">
+              <button className="text-center">
+                <span className="block text-xl font-bold text-gray-900">
+                  {userProfile.followingCount}
+                </span>
+                <span className="text-sm text-gray-500">Following</span>
+              </button>
+            </FollowListDialog>
           </div>
           
           <div className="flex space-x-2 justify-center mb-4">
-            <Button className="bg-eco-primary hover:bg-eco-primary/90">
-              Edit Profile
-            </Button>
-            <Button 
-              variant="outline"
-              onClick={() => window.location.href = "/api/logout"}
-            >
-              Logout
-            </Button>
+            {isOwnProfile ? (
+              <>
+                <EditProfileSheet user={userProfile}>
+                  <Button className="bg-eco-primary hover:bg-eco-primary/90">
+                    Edit Profile
+                  </Button>
+                </EditProfileSheet>
+                <Button 
+                  variant="outline"
+                  onClick={() => window.location.href = "/api/logout"}
+                >
+                  Logout
+                </Button>
+              </>
+            ) : (
+              <>
+                <FollowButton userId={userProfile.id} isFollowing={!!userProfile.isFollowing} size="default" />
+                <MessageButton userId={userProfile.id} />
+                <Button
+                  variant="outline"
+                  onClick={() => muteMutation.mutate(!userProfile.isMuted)}
+                  disabled={muteMutation.isPending}
+                >
+                  {userProfile.isMuted ? "Unmute" : "Mute"}
+                </Button>
+              </>
+            )}
           </div>
         </div>
         
         {/* Sustainability Stats */}
         <div className="p-4 bg-eco-light">
-          <h3 className="font-semibold text-eco-primary mb-3">Your Eco Impact</h3>
+          <h3 className="font-semibold text-eco-primary mb-3">{isOwnProfile ? "Your Eco Impact" : "Eco Impact"}</h3>
           <div className="grid grid-cols-2 gap-4">
             <div className="bg-white p-3 rounded-lg text-center">
               <div className="text-blue-500 text-xl mb-2">💧</div>
@@ -142,27 +213,72 @@ export default function Profile() {
                 </Badge>
               ))
             ) : (
-              <p className="text-gray-500 text-sm">No badges earned yet. Keep posting to earn your first badge!</p>
+              <p className="text-gray-500 text-sm">
+                {isOwnProfile ? "No badges earned yet. Keep posting to earn your first badge!" : "No badges earned yet."}
+              </p>
             )}
           </div>
         </div>
         
+        {/* Drafts */}
+        {isOwnProfile && drafts.length > 0 && (
+          <div className="p-4 border-t border-gray-200">
+            <h3 className="font-semibold text-gray-900 mb-3">Drafts</h3>
+            <div className="flex space-x-3 overflow-x-auto">
+              {drafts.map((draft) => (
+                <Link key={draft.id} href={`/drafts/${draft.id}`} className="flex-shrink-0 w-28">
+                  <img
+                    src={draft.imageUrl}
+                    alt="Draft"
+                    className="w-28 h-28 rounded-lg object-cover opacity-80"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {draft.publishAt
+                      ? `Scheduled for ${format(new Date(draft.publishAt), "MMM d, h:mm a")}`
+                      : "Draft"}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Rentable Items */}
+        {rentableItems.length > 0 && (
+          <div className="p-4 border-t border-gray-200">
+            <h3 className="font-semibold text-gray-900 mb-3">Available to Rent</h3>
+            <div className="flex space-x-3 overflow-x-auto">
+              {rentableItems.map((post) => (
+                <Link key={post.id} href={`/post/${post.id}`} className="flex-shrink-0 w-28">
+                  <img
+                    src={post.imageUrl}
+                    alt="Rental item"
+                    className="w-28 h-28 rounded-lg object-cover"
+                  />
+                  <p className="text-sm font-semibold text-eco-primary mt-1">${post.rentPrice || "0"}/day</p>
+                  {post.size && <p className="text-xs text-gray-500">Size {post.size}</p>}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Posts Grid */}
         <div className="grid grid-cols-3 gap-1">
           {userPosts && userPosts.length > 0 ? (
             userPosts.map((post) => (
-              <div key={post.id} className="aspect-square">
+              <Link key={post.id} href={`/post/${post.id}`} className="aspect-square">
                 <img 
                   src={post.imageUrl} 
                   alt="Post" 
                   className="w-full h-full object-cover cursor-pointer hover:opacity-80 transition-opacity"
                 />
-              </div>
+              </Link>
             ))
           ) : (
             <div className="col-span-3 p-8 text-center text-gray-500">
               <p>No posts yet</p>
-              <p className="text-sm">Share your first thrift find!</p>
+              {isOwnProfile && <p className="text-sm">Share your first thrift find!</p>}
             </div>
           )}
         </div>
@@ -1,22 +1,19 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
-import { useToast } from "@/hooks/use-toast";
-import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
 import Navigation from "@/components/navigation";
+import RentalRequestDialog from "@/components/rental-request-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Search, Heart, MapPin } from "lucide-react";
+import { Search, Heart, MapPin, Inbox, Scale } from "lucide-react";
+import { Link } from "wouter";
 import { PostWithUser } from "@shared/schema";
 
 export default function Rent() {
   const { user, isAuthenticated } = useAuth();
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState("");
   const [activeFilter, setActiveFilter] = useState("All");
 
@@ -25,45 +22,6 @@ export default function Rent() {
     enabled: isAuthenticated,
   });
 
-  const requestRentalMutation = useMutation({
-    mutationFn: async (data: { postId: string; ownerId: string; startDate: string; endDate: string; message: string }) => {
-      const response = await apiRequest("POST", "/api/rentals/request", {
-        postId: data.postId,
-        ownerId: data.ownerId,
-        startDate: data.startDate,
-        endDate: data.endDate,
-        message: data.message,
-        totalPrice: "0", // Would calculate based on rental duration and price
-      });
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Success",
-        description: "Rental request sent! The owner will be notified.",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/rentals/my-requests"] });
-    },
-    onError: (error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-      toast({
-        title: "Error",
-        description: "Failed to send rental request. Please try again.",
-        variant: "destructive",
-      });
-    },
-  });
-
   const filters = ["All", "Dresses", "Jackets", "Vintage", "Size S", "Size M", "Size L"];
 
   const filteredPosts = rentablePosts?.filter((post) => {
@@ -78,27 +36,29 @@ export default function Rent() {
     return matchesSearch && matchesFilter;
   }) || [];
 
-  const handleRentalRequest = (post: PostWithUser) => {
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const nextWeek = new Date(today);
-    nextWeek.setDate(nextWeek.getDate() + 7);
-
-    requestRentalMutation.mutate({
-      postId: post.id,
-      ownerId: post.userId,
-      startDate: tomorrow.toISOString(),
-      endDate: nextWeek.toISOString(),
-      message: `Hi! I'd love to rent this ${post.tags?.[0] || "item"} for a special occasion. Would you be available for rental?`,
-    });
-  };
-
   return (
     <div className="max-w-md mx-auto bg-white min-h-screen relative">
       <div className="bg-white pb-20">
         {/* Search Header */}
         <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold text-gray-900">Rent</h2>
+            <div className="flex space-x-2">
+              {user?.isAdmin && (
+                <Link href="/admin/disputes">
+                  <Button variant="outline" size="sm" aria-label="Dispute queue">
+                    <Scale className="h-4 w-4" />
+                  </Button>
+                </Link>
+              )}
+              <Link href="/rent/inbox">
+                <Button variant="outline" size="sm">
+                  <Inbox className="h-4 w-4 mr-2" />
+                  Requests for my items
+                </Button>
+              </Link>
+            </div>
+          </div>
           <div className="relative mb-3">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
             <Input
@@ -174,9 +134,11 @@ export default function Rent() {
                     </div>
                     <div className="text-right ml-2">
                       <p className="font-bold text-eco-primary">
-                        ${post.rentPrice || "15"}/day
+                        ${post.rentPrice || "0"}/day
                       </p>
-                      <p className="text-xs text-gray-500">Min. 2 days</p>
+                      {(post.rentMinDays || 1) > 1 && (
+                        <p className="text-xs text-gray-500">Min. {post.rentMinDays} days</p>
+                      )}
                     </div>
                   </div>
 
@@ -184,7 +146,7 @@ export default function Rent() {
                     <Avatar className="w-6 h-6">
                       <AvatarImage src={post.user.profileImageUrl || ""} />
                       <AvatarFallback className="text-xs">
-                        {post.user.firstName?.[0] || post.user.email?.[0] || "U"}
+                        {post.user.firstName?.[0] || post.user.username?.[0] || "U"}
                       </AvatarFallback>
                     </Avatar>
                     <span className="text-sm text-gray-600">
@@ -197,13 +159,17 @@ export default function Rent() {
                   </div>
 
                   <div className="flex space-x-2">
-                    <Button 
-                      className="flex-1 bg-eco-primary hover:bg-eco-primary/90"
-                      onClick={() => handleRentalRequest(post)}
-                      disabled={requestRentalMutation.isPending}
-                    >
-                      {requestRentalMutation.isPending ? "Requesting..." : "Request to Rent"}
-                    </Button>
+                    {post.userId === user?.id ? (
+                      <Button className="flex-1" variant="outline" disabled>
+                        Your Item
+                      </Button>
+                    ) : (
+                      <RentalRequestDialog post={post}>
+                        <Button className="flex-1 bg-eco-primary hover:bg-eco-primary/90">
+                          Request to Rent
+                        </Button>
+                      </RentalRequestDialog>
+                    )}
                     <Button variant="outline" size="icon">
                       <Heart className="h-4 w-4 text-gray-600" />
                     </Button>
@@ -0,0 +1,332 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import Navigation from "@/components/navigation";
+import ConditionReportDialog, { checklistLabels, stageLabels } from "@/components/condition-report-dialog";
+import DisputeDialog, { disputeKindLabels } from "@/components/dispute-dialog";
+import MessageButton from "@/components/message-button";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, CalendarPlus } from "lucide-react";
+import { format } from "date-fns";
+import { asLocalDay } from "@shared/calendarDates";
+import { rentalStatusStyles } from "@/lib/rentals";
+import {
+  calendarRentalStatuses,
+  conditionReportStages,
+  type ConditionReportStage,
+  type RentalConditionReport,
+  type DisputeKind,
+  type RentalDispute,
+  type RentalParty,
+  type RentalRequestWithDetails,
+  type RentalStatus,
+} from "@shared/schema";
+
+// Mirrors the server's filing windows so we only offer reports that will be accepted.
+const reportWindows: Record<ConditionReportStage, RentalStatus[]> = {
+  check_out: ["approved", "active"],
+  check_in: ["active", "overdue", "returned"],
+};
+
+function ReportSummary({ report }: { report?: RentalConditionReport }) {
+  if (!report) {
+    return <p className="text-xs text-gray-400">Not filed yet</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {report.issues && report.issues.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {report.issues.map((issue) => (
+            <Badge key={issue} variant="secondary" className="text-xs bg-red-50 text-red-700">
+              {checklistLabels[issue as keyof typeof checklistLabels] || issue}
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-green-700">No issues</p>
+      )}
+      {report.notes && <p className="text-xs text-gray-600">{report.notes}</p>}
+      {report.photoUrls && report.photoUrls.length > 0 && (
+        <div className="grid grid-cols-3 gap-1">
+          {report.photoUrls.map((url) => (
+            <a key={url} href={url} target="_blank" rel="noreferrer">
+              <img src={url} alt="Condition" className="w-full aspect-square object-cover rounded" />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PhotoStrip({ urls }: { urls: string[] | null }) {
+  if (!urls || urls.length === 0) return null;
+  return (
+    <div className="grid grid-cols-4 gap-1 mt-2">
+      {urls.map((url) => (
+        <a key={url} href={url} target="_blank" rel="noreferrer">
+          <img src={url} alt="Evidence" className="w-full aspect-square object-cover rounded" />
+        </a>
+      ))}
+    </div>
+  );
+}
+
+function DisputeCard({ dispute, userId }: { dispute: RentalDispute; userId?: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [response, setResponse] = useState("");
+
+  const respondMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/disputes/${dispute.id}/response`, { response });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rentals", dispute.rentalId, "disputes"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to send response",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="border border-gray-200">
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">
+            {disputeKindLabels[dispute.kind as DisputeKind] || dispute.kind}
+          </span>
+          <Badge variant="secondary" className="capitalize">{dispute.status}</Badge>
+        </div>
+        <p className="text-sm text-gray-600">{dispute.description}</p>
+        <PhotoStrip urls={dispute.evidenceUrls} />
+
+        {dispute.response && (
+          <div className="bg-gray-50 rounded-lg p-2">
+            <p className="text-xs font-medium text-gray-700 mb-1">Response</p>
+            <p className="text-sm text-gray-600">{dispute.response}</p>
+            <PhotoStrip urls={dispute.responseEvidenceUrls} />
+          </div>
+        )}
+
+        {dispute.status === "open" && dispute.respondentId === userId && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Your side of the story..."
+              value={response}
+              onChange={(e) => setResponse(e.target.value)}
+              rows={3}
+            />
+            <Button
+              size="sm"
+              className="w-full bg-eco-primary hover:bg-eco-primary/90"
+              onClick={() => respondMutation.mutate()}
+              disabled={!response.trim() || respondMutation.isPending}
+            >
+              {respondMutation.isPending ? "Sending..." : "Respond"}
+            </Button>
+          </div>
+        )}
+
+        {dispute.status === "resolved" && (
+          <div className="bg-eco-light rounded-lg p-2 text-sm">
+            <p className="font-medium text-eco-primary capitalize">
+              Resolved: {dispute.outcome?.replace(/_/g, " ")}
+            </p>
+            {dispute.depositRefund && (
+              <p className="text-gray-700">Deposit refunded: ${dispute.depositRefund}</p>
+            )}
+            {dispute.resolutionNotes && <p className="text-gray-600">{dispute.resolutionNotes}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function RentalDetail() {
+  const { id } = useParams();
+  const [, setLocation] = useLocation();
+  const { user, isAuthenticated } = useAuth();
+
+  const { data: rental, isLoading } = useQuery<RentalRequestWithDetails>({
+    queryKey: ["/api/rentals", id],
+    enabled: !!id && isAuthenticated,
+  });
+
+  const { data: reports } = useQuery<RentalConditionReport[]>({
+    queryKey: ["/api/rentals", id, "condition-reports"],
+    enabled: !!rental,
+  });
+
+  const { data: disputes } = useQuery<RentalDispute[]>({
+    queryKey: ["/api/rentals", id, "disputes"],
+    enabled: !!rental,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-eco-primary"></div>
+      </div>
+    );
+  }
+
+  if (!rental) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Rental not found</h2>
+          <Button onClick={() => setLocation("/rent/inbox")}>Back to rentals</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const status = rental.status as RentalStatus;
+  const role: RentalParty = rental.ownerId === user?.id ? "owner" : "requester";
+  const counterpart = role === "owner" ? rental.requester : rental.owner;
+  const findReport = (stage: ConditionReportStage, reporterRole: RentalParty) =>
+    reports?.find((report) => report.stage === stage && report.reporterRole === reporterRole);
+
+  return (
+    <div className="max-w-md mx-auto bg-white min-h-screen relative">
+      <div className="bg-white pb-20">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setLocation("/rent/inbox")}
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h2 className="text-lg font-semibold">Rental</h2>
+          {calendarRentalStatuses.includes(rental.status as RentalStatus) ? (
+            <Button variant="ghost" size="icon" asChild aria-label="Add to calendar">
+              <a href={`/api/rentals/${rental.id}/ics`} download>
+                <CalendarPlus className="h-5 w-5" />
+              </a>
+            </Button>
+          ) : (
+            <div className="w-10" />
+          )}
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Summary */}
+          <Card className="border border-gray-200">
+            <CardContent className="p-4 flex space-x-3">
+              <img
+                src={rental.post.imageUrl}
+                alt="Rental item"
+                className="w-20 h-20 rounded-lg object-cover"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start justify-between">
+                  <h3 className="font-semibold text-gray-900 line-clamp-1">
+                    {rental.post.caption?.split('.')[0] || "Vintage Item"}
+                  </h3>
+                  <Badge className={`ml-2 capitalize ${rentalStatusStyles[status]}`}>{status}</Badge>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {format(asLocalDay(rental.startDate), "MMM d")} – {format(asLocalDay(rental.endDate), "MMM d, yyyy")}
+                </p>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-600">
+                    {role === "owner" ? "Renter" : "Owner"}: {counterpart.firstName || counterpart.username || "User"}
+                  </p>
+                  <MessageButton userId={counterpart.id} size="sm" className="h-7 px-2 text-xs" />
+                </div>
+                {rental.totalPrice && (
+                  <p className="text-sm font-semibold text-eco-primary">${rental.totalPrice}</p>
+                )}
+                {parseFloat(rental.lateFees || "0") > 0 && (
+                  <p className="text-sm text-red-700">
+                    + ${rental.lateFees} late fees ({rental.lateDaysCharged} day{rental.lateDaysCharged === 1 ? "" : "s"})
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Condition Reports */}
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Condition Reports</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {conditionReportStages.map((stage) => (
+                <Card key={stage} className="border border-gray-200">
+                  <CardContent className="p-3 space-y-3">
+                    <h4 className="text-sm font-semibold text-eco-primary">At {stageLabels[stage].toLowerCase()}</h4>
+                    {(["owner", "requester"] as RentalParty[]).map((party) => (
+                      <div key={party}>
+                        <p className="text-xs font-medium text-gray-700 mb-1">
+                          {party === "owner" ? "Owner" : "Renter"}
+                        </p>
+                        <ReportSummary report={findReport(stage, party)} />
+                      </div>
+                    ))}
+                    {reportWindows[stage].includes(status) && !findReport(stage, role) && (
+                      <ConditionReportDialog rentalId={rental.id} stage={stage}>
+                        <Button size="sm" className="w-full bg-eco-primary hover:bg-eco-primary/90">
+                          File report
+                        </Button>
+                      </ConditionReportDialog>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+
+          {/* Claims */}
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Claims</h3>
+            {disputes && disputes.length > 0 ? (
+              <div className="space-y-2 mb-3">
+                {disputes.map((dispute) => (
+                  <DisputeCard key={dispute.id} dispute={dispute} userId={user?.id} />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 mb-3">No claims on this rental.</p>
+            )}
+            {status !== "pending" && (
+              <DisputeDialog rentalId={rental.id} reports={reports || []}>
+                <Button variant="outline" className="w-full">
+                  Open a claim
+                </Button>
+              </DisputeDialog>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Navigation />
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import Navigation from "@/components/navigation";
+import RentalReviewDialog from "@/components/rental-review-dialog";
+import CalendarFeedDialog from "@/components/calendar-feed-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, CalendarDays } from "lucide-react";
+import { Link, useLocation } from "wouter";
+import { format } from "date-fns";
+import { asLocalDay } from "@shared/calendarDates";
+import { rentalActionLabels, rentalStatusStyles } from "@/lib/rentals";
+import {
+  rentalStatusTransitions,
+  type RentalParty,
+  type RentalRequestWithDetails,
+  type RentalStatus,
+} from "@shared/schema";
+
+// Statuses where the rental is still in progress.
+const openStatuses: RentalStatus[] = ["pending", "approved", "active", "overdue", "returned"];
+
+export default function RentalInbox() {
+  const [, setLocation] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: requests, isLoading } = useQuery<RentalRequestWithDetails[]>({
+    queryKey: ["/api/rentals/incoming"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: myRentals, isLoading: myRentalsLoading } = useQuery<RentalRequestWithDetails[]>({
+    queryKey: ["/api/rentals/my-requests"],
+    enabled: isAuthenticated,
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async (data: { id: string; status: RentalStatus }) => {
+      const response = await apiRequest("PATCH", `/api/rentals/${data.id}`, { status: data.status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rentals/incoming"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rentals/my-requests"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message.startsWith("409")
+          ? "This request has changed. Refreshing..."
+          : "Failed to update rental request",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/rentals/incoming"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rentals/my-requests"] });
+    },
+  });
+
+  const openRequests = requests?.filter((r) => openStatuses.includes(r.status as RentalStatus)) || [];
+  const history = requests?.filter((r) => !openStatuses.includes(r.status as RentalStatus)) || [];
+
+  const renderRequest = (request: RentalRequestWithDetails, role: RentalParty) => {
+    const status = request.status as RentalStatus;
+    const actions = Object.entries(rentalStatusTransitions[status])
+      .filter(([, party]) => party === role)
+      .map(([next]) => next as RentalStatus);
+    const counterpart = role === "owner" ? request.requester : request.owner;
+    const counterpartName = counterpart.firstName || counterpart.username || "User";
+    const canReview = status === "completed" &&
+      !(role === "owner" ? request.ownerReviewed : request.requesterReviewed);
+
+    return (
+      <Card key={request.id} className="border border-gray-200">
+        <CardContent className="p-4">
+          <Link href={`/rentals/${request.id}`} className="flex space-x-3 mb-3 cursor-pointer">
+            <img
+              src={request.post.imageUrl}
+              alt="Rental item"
+              className="w-16 h-16 rounded-lg object-cover"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-start justify-between">
+                <h3 className="font-semibold text-gray-900 line-clamp-1">
+                  {request.post.caption?.split('.')[0] || "Vintage Item"}
+                </h3>
+                <Badge className={`ml-2 capitalize ${rentalStatusStyles[status]}`}>{status}</Badge>
+              </div>
+              <p className="text-sm text-gray-600">
+                {format(asLocalDay(request.startDate), "MMM d")} – {format(asLocalDay(request.endDate), "MMM d")}
+              </p>
+              {request.totalPrice && (
+                <p className="text-sm font-semibold text-eco-primary">
+                  ${request.totalPrice}
+                  {parseFloat(request.lateFees || "0") > 0 && (
+                    <span className="text-red-700 font-normal"> + ${request.lateFees} late</span>
+                  )}
+                </p>
+              )}
+            </div>
+          </Link>
+
+          <div className="flex items-center space-x-2 mb-2">
+            <Avatar className="w-6 h-6">
+              <AvatarImage src={counterpart.profileImageUrl || ""} />
+              <AvatarFallback className="text-xs">
+                {counterpart.firstName?.[0] || counterpart.username?.[0] || "U"}
+              </AvatarFallback>
+            </Avatar>
+            <span className="text-sm text-gray-700">
+              {role === "owner" ? `Requested by ${counterpartName}` : `Owned by ${counterpartName}`}
+            </span>
+          </div>
+
+          {request.message && (
+            <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-2 mb-3">{request.message}</p>
+          )}
+
+          {(actions.length > 0 || canReview) && (
+            <div className="flex space-x-2">
+              {actions.map((next) => (
+                <Button
+                  key={next}
+                  size="sm"
+                  variant={next === "declined" || next === "cancelled" ? "outline" : "default"}
+                  className={next === "declined" || next === "cancelled" ? "flex-1" : "flex-1 bg-eco-primary hover:bg-eco-primary/90"}
+                  disabled={updateStatusMutation.isPending}
+                  onClick={() => updateStatusMutation.mutate({ id: request.id, status: next })}
+                >
+                  {rentalActionLabels[next] || next}
+                </Button>
+              ))}
+              {canReview && (
+                <RentalReviewDialog rentalId={request.id} role={role} counterpartName={counterpartName}>
+                  <Button size="sm" className="flex-1 bg-eco-primary hover:bg-eco-primary/90">
+                    Leave Review
+                  </Button>
+                </RentalReviewDialog>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white min-h-screen relative">
+      <div className="bg-white pb-20">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-200">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setLocation("/rent")}
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h2 className="text-lg font-semibold">Rental Requests</h2>
+          <CalendarFeedDialog>
+            <Button variant="ghost" size="icon" aria-label="Rental calendar">
+              <CalendarDays className="h-5 w-5" />
+            </Button>
+          </CalendarFeedDialog>
+        </div>
+
+        <Tabs defaultValue="open" className="p-4">
+          <TabsList className="grid w-full grid-cols-3 mb-4">
+            <TabsTrigger value="open">
+              Open{openRequests.length > 0 && ` (${openRequests.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="mine">My Rentals</TabsTrigger>
+          </TabsList>
+
+          {isLoading || myRentalsLoading ? (
+            <div className="space-y-4">
+              {[1, 2].map((i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardContent className="p-4">
+                    <div className="flex space-x-3">
+                      <div className="w-16 h-16 bg-gray-300 rounded-lg"></div>
+                      <div className="flex-1 space-y-2">
+                        <div className="h-4 bg-gray-300 rounded w-3/4"></div>
+                        <div className="h-3 bg-gray-300 rounded w-1/2"></div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <>
+              <TabsContent value="open" className="space-y-4">
+                {openRequests.length > 0 ? (
+                  openRequests.map((request) => renderRequest(request, "owner"))
+                ) : (
+                  <div className="text-center py-8 text-gray-500">No open requests</div>
+                )}
+              </TabsContent>
+              <TabsContent value="history" className="space-y-4">
+                {history.length > 0 ? (
+                  history.map((request) => renderRequest(request, "owner"))
+                ) : (
+                  <div className="text-center py-8 text-gray-500">No past requests yet</div>
+                )}
+              </TabsContent>
+              <TabsContent value="mine" className="space-y-4">
+                {myRentals && myRentals.length > 0 ? (
+                  myRentals.map((request) => renderRequest(request, "requester"))
+                ) : (
+                  <div className="text-center py-8 text-gray-500">You haven't rented anything yet</div>
+                )}
+              </TabsContent>
+            </>
+          )}
+        </Tabs>
+      </div>
+
+      <Navigation />
+    </div>
+  );
+}
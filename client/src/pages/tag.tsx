@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import Navigation from "@/components/navigation";
+import PostCard from "@/components/post-card";
+import { tagPath } from "@/components/rich-text";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, TrendingUp } from "lucide-react";
+import type { PostWithUser, Tag, TrendingTag } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+export default function TagPage() {
+  const { tag } = useParams<{ tag: string }>();
+  const [, setLocation] = useLocation();
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const { data: tagInfo } = useQuery<Tag>({
+    queryKey: ["/api/tags", tag],
+  });
+
+  const { data: posts, isLoading } = useQuery<PostWithUser[]>({
+    queryKey: ["/api/tags", tag, `posts?limit=${limit}`],
+    placeholderData: (previous) => previous,
+  });
+
+  const { data: trending } = useQuery<TrendingTag[]>({
+    queryKey: ["/api/tags/trending?limit=8"],
+  });
+
+  const otherTags = trending?.filter((entry) => entry.tag !== tag) || [];
+
+  return (
+    <div className="max-w-md mx-auto bg-white min-h-screen relative">
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
+        <div className="flex items-center px-4 py-3 space-x-3">
+          <Button variant="ghost" size="icon" onClick={() => setLocation("/")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">#{tag}</h1>
+            <p className="text-xs text-gray-500">
+              {tagInfo ? `${tagInfo.postsCount} ${tagInfo.postsCount === 1 ? "post" : "posts"}` : "No posts yet"}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      {otherTags.length > 0 && (
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center text-sm font-semibold text-gray-900 mb-2">
+            <TrendingUp className="h-4 w-4 mr-1 text-eco-primary" />
+            Trending
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {otherTags.map((entry) => (
+              <Link key={entry.tag} href={tagPath(entry.tag)} onClick={() => setLimit(PAGE_SIZE)}>
+                <Badge variant="secondary" className="bg-eco-light text-eco-primary text-xs px-2 py-1 rounded-full">
+                  #{entry.tag}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <main className="pb-20">
+        {isLoading ? (
+          <div className="p-8 flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-eco-primary"></div>
+          </div>
+        ) : posts && posts.length > 0 ? (
+          <div className="space-y-1">
+            {posts.map((post) => (
+              <PostCard key={post.id} post={post} />
+            ))}
+            {posts.length >= limit && (
+              <div className="p-4 text-center">
+                <Button variant="outline" onClick={() => setLimit(limit + PAGE_SIZE)}>
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="p-8 text-center text-gray-500">No posts tagged #{tag} yet</div>
+        )}
+      </main>
+
+      <Navigation />
+    </div>
+  );
+}
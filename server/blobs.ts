@@ -0,0 +1,138 @@
+import express, { type Express } from "express";
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { DeleteObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+
+// Where uploaded files live once processed. Keys are flat, unguessable file
+// names ("3f2a…-640.webp") that are never overwritten, so whatever serves them
+// may cache them forever. The driver is picked from the environment:
+//
+//   BLOB_STORAGE=local (default)  files under UPLOAD_DIR (default "uploads"),
+//                                 served by this app at /uploads
+//   BLOB_STORAGE=s3               S3_BUCKET, S3_REGION, and optionally
+//                                 S3_ENDPOINT for S3-compatible services such
+//                                 as a local MinIO, S3_PUBLIC_URL for a CDN in
+//                                 front of the bucket, S3_ACCESS_KEY_ID and
+//                                 S3_SECRET_ACCESS_KEY (else the AWS defaults)
+
+const CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+export interface BlobStore {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  // The URL browsers load the blob from; this is what gets saved on rows.
+  url(key: string): string;
+  // Registers whatever /uploads needs to serve.
+  mount(app: Express): void;
+}
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly directory: string) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path.join(this.directory, path.basename(key)), body);
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(path.join(this.directory, path.basename(key))).catch(() => undefined);
+  }
+
+  url(key: string): string {
+    return `/uploads/${encodeURIComponent(key)}`;
+  }
+
+  mount(app: Express): void {
+    // express.static handles ETags, Last-Modified, conditional requests and ranges.
+    app.use(
+      "/uploads",
+      express.static(this.directory, {
+        index: false,
+        dotfiles: "deny",
+        etag: true,
+        lastModified: true,
+        setHeaders: (res) => res.setHeader("Cache-Control", CACHE_CONTROL),
+      }),
+    );
+    app.use("/uploads", (_req, res) => {
+      res.status(404).json({ message: "Image not found" });
+    });
+  }
+}
+
+export class S3BlobStore implements BlobStore {
+  private readonly client: S3Client;
+  private readonly publicUrl: string;
+
+  constructor(
+    private readonly bucket: string,
+    options: { region: string; endpoint?: string; publicUrl?: string; accessKeyId?: string; secretAccessKey?: string },
+  ) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      // Stand-ins like MinIO don't do bucket subdomains.
+      forcePathStyle: !!options.endpoint,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    });
+    this.publicUrl = (
+      options.publicUrl ??
+      (options.endpoint
+        ? `${options.endpoint}/${bucket}`
+        : `https://${bucket}.s3.${options.region}.amazonaws.com`)
+    ).replace(/\/+$/, "");
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: CACHE_CONTROL,
+      }),
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl}/${encodeURIComponent(key)}`;
+  }
+
+  mount(app: Express): void {
+    // Rows saved while files were local still point at /uploads; once the
+    // files are copied into the bucket under the same names, this keeps them working.
+    app.get("/uploads/:key", (req, res) => {
+      res.redirect(301, this.url(req.params.key));
+    });
+  }
+}
+
+function createBlobStore(): BlobStore {
+  const driver = process.env.BLOB_STORAGE || "local";
+  if (driver === "local") {
+    return new LocalBlobStore(path.resolve(process.env.UPLOAD_DIR || "uploads"));
+  }
+  if (driver === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when BLOB_STORAGE is s3");
+    }
+    return new S3BlobStore(process.env.S3_BUCKET, {
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT,
+      publicUrl: process.env.S3_PUBLIC_URL,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+  throw new Error(`Unknown BLOB_STORAGE "${driver}"; expected "local" or "s3"`);
+}
+
+export const blobs: BlobStore = createBlobStore();
@@ -0,0 +1,22 @@
+import { EventEmitter } from "events";
+import type { Conversation, Message, Notification, RentalRequest } from "@shared/schema";
+
+// In-process events emitted by storage after a write commits. The realtime
+// channel listens to these; storage does not need to know who is listening.
+export interface AppEvents {
+  notification: [notification: Notification];
+  postCounts: [counts: { postId: string; likesCount: number; commentsCount: number }];
+  rental: [rental: RentalRequest];
+  message: [message: Message, conversation: Conversation];
+  messagesRead: [read: { conversation: Conversation; readerId: string; readAt: Date }];
+}
+
+const emitter = new EventEmitter();
+
+export function emitAppEvent<K extends keyof AppEvents>(name: K, ...args: AppEvents[K]): void {
+  emitter.emit(name, ...args);
+}
+
+export function onAppEvent<K extends keyof AppEvents>(name: K, listener: (...args: AppEvents[K]) => void): void {
+  emitter.on(name, listener as (...args: unknown[]) => void);
+}
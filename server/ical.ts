@@ -0,0 +1,92 @@
+import { addDays, format } from "date-fns";
+import { asLocalDay } from "@shared/calendarDates";
+import type { PublicUser, RentalRequestWithDetails } from "@shared/schema";
+
+// Serializes rentals as RFC 5545 iCalendar data. Each rental becomes two
+// all-day events, pickup and return, described from the viewer's side.
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Content lines longer than 75 octets are folded onto continuation lines
+// starting with a space. Split on characters, not bytes, so multi-byte
+// characters stay intact.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatDate(date: Date): string {
+  return format(asLocalDay(date), "yyyyMMdd");
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function displayName(user: PublicUser): string {
+  if (user.firstName && user.lastName) return `${user.firstName} ${user.lastName}`;
+  return user.firstName || user.username || "a ThriftShare member";
+}
+
+function rentalEvents(rental: RentalRequestWithDetails, viewerId: string): string[] {
+  const title = rental.post.caption?.split(".")[0] || "Vintage item";
+  const lending = rental.ownerId === viewerId;
+  const counterpart = lending ? rental.requester : rental.owner;
+  const party = lending
+    ? `Lending to ${displayName(counterpart)}`
+    : `Renting from ${displayName(counterpart)}`;
+  const description = rental.post.caption ? `${party}\n\n${rental.post.caption}` : party;
+  const stamp = formatTimestamp(rental.updatedAt ?? rental.createdAt ?? new Date());
+
+  const event = (kind: "pickup" | "return", day: Date, summary: string) => [
+    "BEGIN:VEVENT",
+    `UID:${rental.id}-${kind}@thriftshare`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(day)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDays(day, 1))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    "STATUS:CONFIRMED",
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+
+  return [
+    ...event("pickup", rental.startDate, lending ? `Hand over: ${title}` : `Pick up: ${title}`),
+    ...event("return", rental.endDate, lending ? `Get back: ${title}` : `Return: ${title}`),
+  ];
+}
+
+export function buildRentalCalendar(rentals: RentalRequestWithDetails[], viewerId: string, name = "ThriftShare rentals"): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ThriftShare//Rentals//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...rentals.flatMap((rental) => rentalEvents(rental, viewerId)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
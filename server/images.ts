@@ -0,0 +1,154 @@
+import { open, unlink } from "fs/promises";
+import { randomBytes } from "crypto";
+import sharp from "sharp";
+import { encode } from "blurhash";
+import { blobs } from "./blobs";
+import type { ImageVariant, UploadedImage } from "@shared/schema";
+
+// Turns raw multer uploads into the files we actually serve, saved through the
+// blob store. Every upload is
+// decoded and re-encoded, which drops EXIF (including GPS) and any other
+// metadata, after rotating it upright. Each photo gets JPEG and WebP copies at
+// the widths below, never upscaled, plus a blurhash to show while it loads.
+
+const VARIANT_WIDTHS = [320, 640, 1080];
+const JPEG_QUALITY = 82;
+const WEBP_QUALITY = 80;
+
+// Magic numbers of the formats we accept. The browser-supplied mimetype is
+// only a hint; this is what decides.
+const SIGNATURES: { format: string; matches: (header: Buffer) => boolean }[] = [
+  { format: "jpeg", matches: (h) => h[0] === 0xff && h[1] === 0xd8 && h[2] === 0xff },
+  {
+    format: "png",
+    matches: (h) => h.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  { format: "gif", matches: (h) => ["GIF87a", "GIF89a"].includes(h.toString("latin1", 0, 6)) },
+  { format: "webp", matches: (h) => h.toString("latin1", 0, 4) === "RIFF" && h.toString("latin1", 8, 12) === "WEBP" },
+];
+
+export const SUPPORTED_IMAGE_MESSAGE = "Only JPEG, PNG, WebP and GIF images are allowed";
+
+async function detectFormat(filePath: string): Promise<string | undefined> {
+  const handle = await open(filePath, "r");
+  try {
+    const header = Buffer.alloc(12);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+    if (bytesRead < header.length) return undefined;
+    return SIGNATURES.find((signature) => signature.matches(header))?.format;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function removeBlobs(keys: string[]) {
+  await Promise.all(
+    keys.map((key) => blobs.delete(key).catch((error) => console.error("Error removing image:", error))),
+  );
+}
+
+async function placeholderFor(filePath: string): Promise<string> {
+  const { data, info } = await sharp(filePath)
+    .rotate()
+    .resize(32, 32, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return encode(new Uint8ClampedArray(data), info.width, info.height, 4, 3);
+}
+
+// Resolves to undefined if the file is not an image we accept or cannot be
+// decoded. The raw upload is always deleted.
+async function processFile(file: Express.Multer.File): Promise<{ image: UploadedImage; keys: string[] } | undefined> {
+  const written: string[] = [];
+  try {
+    if (!(await detectFormat(file.path))) return undefined;
+
+    const metadata = await sharp(file.path).metadata();
+    if (!metadata.width || !metadata.height) return undefined;
+    // EXIF orientations 5-8 are rotated a quarter turn.
+    const [sourceWidth, sourceHeight] =
+      (metadata.orientation ?? 1) >= 5 ? [metadata.height, metadata.width] : [metadata.width, metadata.height];
+
+    const widths = VARIANT_WIDTHS.filter((width) => width < sourceWidth);
+    widths.push(Math.min(sourceWidth, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]));
+
+    const base = randomBytes(16).toString("hex");
+    const variants: ImageVariant[] = [];
+    for (const width of widths) {
+      // Flattened so transparent PNGs get a white background rather than black in the JPEG.
+      const resized = sharp(file.path).rotate().resize({ width }).flatten({ background: "#ffffff" });
+      for (const format of ["jpeg", "webp"] as const) {
+        const key = `${base}-${width}.${format === "jpeg" ? "jpg" : "webp"}`;
+        const body = await (format === "jpeg"
+          ? resized.clone().jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+          : resized.clone().webp({ quality: WEBP_QUALITY })
+        ).toBuffer();
+        written.push(key);
+        await blobs.put(key, body, `image/${format}`);
+        variants.push({ width, format, url: blobs.url(key) });
+      }
+    }
+
+    const largest = widths[widths.length - 1];
+    const image = {
+      url: variants.find((variant) => variant.width === largest && variant.format === "jpeg")!.url,
+      width: largest,
+      height: Math.round((sourceHeight * largest) / sourceWidth),
+      blurhash: await placeholderFor(file.path),
+      variants,
+    };
+    return { image, keys: written };
+  } catch (error) {
+    console.error("Error processing image:", error);
+    await removeBlobs(written);
+    return undefined;
+  } finally {
+    await unlink(file.path).catch(() => undefined);
+  }
+}
+
+/**
+ * Deletes a request's raw uploads, for when it is turned away before they are
+ * processed. Files that were already processed are gone, so this is safe to
+ * call either way.
+ */
+export async function discardUploads(files: Express.Multer.File[]): Promise<void> {
+  await Promise.all(files.map((file) => unlink(file.path).catch(() => undefined)));
+}
+
+/**
+ * Deletes processed images again, for when the row that would have pointed at
+ * them is never written. Keys are flat file names, so each is the last
+ * segment of its variant's URL.
+ */
+export async function discardImages(images: UploadedImage[]): Promise<void> {
+  await removeBlobs(
+    images.flatMap((image) =>
+      image.variants.map((variant) => decodeURIComponent(variant.url.slice(variant.url.lastIndexOf("/") + 1))),
+    ),
+  );
+}
+
+/**
+ * Processes one upload. Resolves to undefined if the file is not an image we
+ * accept or cannot be decoded.
+ */
+export async function processUpload(file: Express.Multer.File): Promise<UploadedImage | undefined> {
+  return (await processFile(file))?.image;
+}
+
+/**
+ * Processes a request's uploads in order. If any of them is rejected, all of
+ * them are discarded and this resolves to undefined.
+ */
+export async function processUploads(files: Express.Multer.File[]): Promise<UploadedImage[] | undefined> {
+  const results: Awaited<ReturnType<typeof processFile>>[] = [];
+  for (const file of files) {
+    results.push(await processFile(file));
+  }
+  if (results.every((result) => !!result)) return results.map((result) => result!.image);
+
+  await removeBlobs(results.flatMap((result) => result?.keys ?? []));
+  return undefined;
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startLateReturnJob } from "./lateReturns";
+import { startScheduledPostJob } from "./scheduledPosts";
 
 const app = express();
 app.use(express.json());
@@ -68,4 +70,7 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  startLateReturnJob({ lateFeePerDay: process.env.RENTAL_LATE_FEE_PER_DAY });
+  startScheduledPostJob();
 })();
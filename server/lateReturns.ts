@@ -0,0 +1,152 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+import { asLocalDay } from "@shared/calendarDates";
+import { storage } from "./storage";
+import { lateFeeTotal } from "./pricing";
+import { log } from "./vite";
+import type { NotificationType, RentalRequestWithDetails, RentalStatus } from "@shared/schema";
+
+export type Clock = () => Date;
+
+export interface LateReturnOptions {
+  clock?: Clock;
+  // Used when the owner has not set a late fee on the item.
+  lateFeePerDay?: string;
+}
+
+export interface LateReturnSummary {
+  checked: number;
+  markedOverdue: number;
+  charged: number;
+  notified: number;
+}
+
+type RentalMilestone = Extract<NotificationType, "rental_due_soon" | "rental_due_today" | "rental_overdue">;
+
+// Rentals where the item has not come back yet.
+const outstandingStatuses: RentalStatus[] = ["approved", "active", "overdue"];
+
+// How many days before the end date the "due soon" reminder goes out.
+const DUE_SOON_DAYS = 2;
+
+function itemTitle(rental: RentalRequestWithDetails): string {
+  return rental.post.caption?.split(".")[0] || "your rental";
+}
+
+function milestoneMessages(
+  type: RentalMilestone,
+  rental: RentalRequestWithDetails,
+): { requester: string; owner: string } {
+  const title = itemTitle(rental);
+  const due = format(asLocalDay(rental.endDate), "EEE, MMM d");
+
+  switch (type) {
+    case "rental_due_soon":
+      return {
+        requester: `"${title}" is due back on ${due}.`,
+        owner: `"${title}" is due back to you on ${due}.`,
+      };
+    case "rental_due_today":
+      return {
+        requester: `"${title}" is due back today.`,
+        owner: `"${title}" is due back to you today.`,
+      };
+    case "rental_overdue":
+      return {
+        requester: `"${title}" was due back on ${due} and is now overdue. Late fees are being added daily.`,
+        owner: `"${title}" was due back on ${due} and has not been returned.`,
+      };
+  }
+}
+
+async function notifyParties(type: RentalMilestone, rental: RentalRequestWithDetails): Promise<number> {
+  const messages = milestoneMessages(type, rental);
+  const dedupeKey = `${type}:${rental.id}`;
+  const sent = await Promise.all([
+    storage.createNotification({ userId: rental.requesterId, type, rentalId: rental.id, message: messages.requester, dedupeKey }),
+    storage.createNotification({ userId: rental.ownerId, type, rentalId: rental.id, message: messages.owner, dedupeKey }),
+  ]);
+  return sent.filter(Boolean).length;
+}
+
+/**
+ * One pass over outstanding rentals as of `clock()`. Safe to run repeatedly:
+ * status changes and fee charges are compare-and-set, and each milestone
+ * notification is unique per user and rental.
+ */
+export async function checkLateReturns(options: LateReturnOptions = {}): Promise<LateReturnSummary> {
+  const now = (options.clock ?? (() => new Date()))();
+  const summary: LateReturnSummary = { checked: 0, markedOverdue: 0, charged: 0, notified: 0 };
+
+  const rentals = await storage.getRentalsEndingBefore(
+    outstandingStatuses,
+    addDays(startOfDay(now), DUE_SOON_DAYS + 1),
+  );
+
+  for (const rental of rentals) {
+    summary.checked++;
+    // A rental under dispute keeps its status and fees until an admin resolves it.
+    if (await storage.hasOpenDispute(rental.id)) continue;
+
+    const daysLeft = differenceInCalendarDays(asLocalDay(rental.endDate), now);
+
+    if (daysLeft > 0) {
+      summary.notified += await notifyParties("rental_due_soon", rental);
+      continue;
+    }
+    if (daysLeft === 0) {
+      summary.notified += await notifyParties("rental_due_today", rental);
+      continue;
+    }
+
+    if (rental.status !== "overdue") {
+      const updated = await storage.updateRentalRequestStatus(rental.id, rental.status as RentalStatus, "overdue");
+      // Lost to a concurrent change (e.g. the renter just returned it).
+      if (!updated) continue;
+      summary.markedOverdue++;
+    }
+
+    const lateDays = -daysLeft;
+    const chargedDays = rental.lateDaysCharged ?? 0;
+    if (lateDays > chargedDays) {
+      const fees = lateFeeTotal(rental.post, lateDays, options.lateFeePerDay);
+      if (await storage.chargeLateDays(rental.id, chargedDays, lateDays, fees)) {
+        summary.charged++;
+      }
+    }
+
+    summary.notified += await notifyParties("rental_overdue", rental);
+  }
+
+  return summary;
+}
+
+/**
+ * Runs checkLateReturns now and then every `intervalMs`. A run is skipped if
+ * the previous one is still going. Returns a function that stops the timer.
+ */
+export function startLateReturnJob(options: LateReturnOptions & { intervalMs?: number } = {}): () => void {
+  const { intervalMs = 60 * 60 * 1000, ...checkOptions } = options;
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const summary = await checkLateReturns(checkOptions);
+      if (summary.markedOverdue || summary.charged || summary.notified) {
+        log(
+          `${summary.markedOverdue} marked overdue, ${summary.charged} charged, ${summary.notified} notifications`,
+          "late-returns",
+        );
+      }
+    } catch (error) {
+      console.error("Late return check failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,66 @@
+import { storage } from "./storage";
+import { extractHashtags, extractMentions } from "@shared/richText";
+import type { Comment, Post, User } from "@shared/schema";
+
+function excerpt(text: string): string {
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+// The members `text` mentions, leaving out the author.
+async function mentionedIn(author: User, text: string): Promise<User[]> {
+  const mentioned = await storage.getUsersByUsernames(extractMentions(text));
+  return mentioned.filter((user) => user.id !== author.id);
+}
+
+async function recordMentions(author: User, mentioned: User[], text: string, postId: string, commentId: string | null) {
+  const added = await storage.addMentions(
+    mentioned.map((user) => ({ mentionedUserId: user.id, authorId: author.id, postId, commentId })),
+  );
+
+  const where = commentId ? "a comment" : "a post";
+  await Promise.all(
+    added.map((mention) =>
+      storage.createNotification({
+        userId: mention.mentionedUserId,
+        type: "mention",
+        postId,
+        commentId,
+        actorId: author.id,
+        message: `mentioned you in ${where}: "${excerpt(text)}"`,
+      }),
+    ),
+  );
+}
+
+/**
+ * Indexes a new or edited post: its tags (already merged with caption hashtags
+ * when the post was saved) and any @mentions in the caption, notifying the
+ * people mentioned. Tags an edit removed are dropped from the index.
+ */
+export async function indexPostText(post: Post): Promise<void> {
+  const postTags = post.tags ?? [];
+  await storage.removePostHashtags(post.id, postTags);
+  await storage.addHashtags(postTags.map((tag) => ({ tag, postId: post.id, commentId: null })));
+
+  const author = await storage.getUser(post.userId);
+  if (author && post.caption) {
+    await recordMentions(author, await mentionedIn(author, post.caption), post.caption, post.id, null);
+  }
+}
+
+/**
+ * Indexes a new or edited comment. After an edit, hashtags and mentions the
+ * text no longer has are dropped and only new ones are added, so people
+ * already mentioned are not notified again.
+ */
+export async function indexCommentText(comment: Comment): Promise<void> {
+  const commentTags = extractHashtags(comment.content);
+  const author = await storage.getUser(comment.userId);
+  const mentioned = author ? await mentionedIn(author, comment.content) : [];
+
+  await storage.removeCommentIndex(comment.id, commentTags, mentioned.map((user) => user.id));
+  await storage.addHashtags(commentTags.map((tag) => ({ tag, postId: comment.postId, commentId: comment.id })));
+  if (author) {
+    await recordMentions(author, mentioned, comment.content, comment.postId, comment.id);
+  }
+}
@@ -0,0 +1,19 @@
+import { storage } from "./storage";
+import type { RentalRequest } from "@shared/schema";
+
+/**
+ * Opens (or reuses) the conversation between a renter and the owner when a
+ * rental is requested, posting the note on the request as the renter's first
+ * message so the two can carry on from there.
+ */
+export async function openRentalConversation(rental: RentalRequest): Promise<void> {
+  const conversation = await storage.getOrCreateConversation(rental.requesterId, rental.ownerId);
+  const body = rental.message?.trim();
+  if (!body) return;
+  await storage.createMessage({
+    conversationId: conversation.id,
+    senderId: rental.requesterId,
+    body,
+    rentalId: rental.id,
+  });
+}
@@ -0,0 +1,161 @@
+import { storage } from "./storage";
+import type {
+  Comment,
+  Notification,
+  Post,
+  NotificationWithActor,
+  PublicUser,
+  RentalRequest,
+  RentalStatus,
+} from "@shared/schema";
+
+// Event producers for in-app notifications. Routes call these after the
+// change is saved; a failed notification never fails the request, so callers
+// fire and forget with a .catch.
+
+// What the other party is told when a rental moves to each status.
+const rentalStatusMessages: Partial<Record<RentalStatus, (title: string) => string>> = {
+  approved: (title) => `approved your request to rent ${title}`,
+  declined: (title) => `declined your request to rent ${title}`,
+  cancelled: (title) => `cancelled the rental of ${title}`,
+  active: (title) => `marked ${title} as picked up`,
+  returned: (title) => `marked ${title} as returned`,
+  completed: (title) => `confirmed ${title} is back`,
+};
+
+// The first sentence of a caption in quotes, or null when there is none.
+function postTitle(caption: string | null | undefined): string | null {
+  const title = caption?.split(".")[0].trim();
+  return title ? `"${title}"` : null;
+}
+
+function actorName(actor: PublicUser): string {
+  return actor.firstName || actor.username || "Someone";
+}
+
+/** Adds the actors to a notification's message: "Ana and 4 others liked your post". */
+export function describeNotification(notification: Notification & { actor: PublicUser | null }): NotificationWithActor {
+  const actorCount = notification.actorIds.length;
+  let text = notification.message;
+  if (notification.actor) {
+    const others = actorCount - 1;
+    const who = others > 0
+      ? `${actorName(notification.actor)} and ${others} ${others === 1 ? "other" : "others"}`
+      : actorName(notification.actor);
+    text = `${who} ${notification.message}`;
+  }
+  return { ...notification, actorCount, text };
+}
+
+export async function notifyLike(postId: string, actorId: string): Promise<void> {
+  const post = await storage.getPost(postId);
+  if (!post || post.userId === actorId) return;
+  await storage.upsertGroupedNotification({
+    userId: post.userId,
+    type: "like",
+    postId,
+    actorId,
+    message: ["liked your post", postTitle(post.caption)].filter(Boolean).join(" "),
+    groupKey: `like:${postId}`,
+  });
+}
+
+/**
+ * Tells the post owner about a new comment and, for a reply, the author of the
+ * comment being replied to. Someone who gets the reply notification is not
+ * also told about the comment.
+ */
+export async function notifyComment(comment: Comment): Promise<void> {
+  const post = await storage.getPost(comment.postId);
+  if (!post) return;
+
+  let replyTo: string | undefined;
+  if (comment.parentId) {
+    const parent = await storage.getComment(comment.parentId);
+    if (parent && parent.userId !== comment.userId) {
+      replyTo = parent.userId;
+      await storage.upsertGroupedNotification({
+        userId: parent.userId,
+        type: "reply",
+        postId: post.id,
+        commentId: parent.id,
+        actorId: comment.userId,
+        message: "replied to your comment",
+        groupKey: `reply:${parent.id}`,
+      });
+    }
+  }
+
+  if (post.userId !== comment.userId && post.userId !== replyTo) {
+    await storage.upsertGroupedNotification({
+      userId: post.userId,
+      type: "comment",
+      postId: post.id,
+      commentId: comment.id,
+      actorId: comment.userId,
+      message: ["commented on your post", postTitle(post.caption)].filter(Boolean).join(" "),
+      groupKey: `comment:${post.id}`,
+    });
+  }
+}
+
+export async function notifyFollow(followerId: string, followingId: string): Promise<void> {
+  await storage.upsertGroupedNotification({
+    userId: followingId,
+    type: "follow",
+    actorId: followerId,
+    message: "started following you",
+    groupKey: "follow",
+  });
+}
+
+export async function notifyRentalRequest(rental: RentalRequest): Promise<void> {
+  const post = await storage.getPost(rental.postId);
+  await storage.createNotification({
+    userId: rental.ownerId,
+    type: "rental_request",
+    rentalId: rental.id,
+    postId: rental.postId,
+    actorId: rental.requesterId,
+    message: `wants to rent ${postTitle(post?.caption) ?? "your item"}`,
+  });
+}
+
+/** Tells a renter their pending request was cancelled because the owner removed the post. */
+export async function notifyPostRemoved(rental: RentalRequest, post: Post): Promise<void> {
+  await storage.createNotification({
+    userId: rental.requesterId,
+    type: "rental_status",
+    rentalId: rental.id,
+    postId: post.id,
+    actorId: post.userId,
+    message: `removed ${postTitle(post.caption) ?? "the item"}, so your request to rent it was cancelled`,
+  });
+}
+
+/** Tells the author their scheduled draft has gone live. */
+export async function notifyPostPublished(post: Post): Promise<void> {
+  const title = postTitle(post.caption);
+  await storage.createNotification({
+    userId: post.userId,
+    type: "post_published",
+    postId: post.id,
+    message: title ? `Your scheduled post ${title} is now live.` : "Your scheduled post is now live.",
+  });
+}
+
+/** Tells the other party when one side moves a rental along. */
+export async function notifyRentalStatus(rental: RentalRequest, actorId: string): Promise<void> {
+  const action = rentalStatusMessages[rental.status as RentalStatus];
+  if (!action) return;
+
+  const post = await storage.getPost(rental.postId);
+  await storage.createNotification({
+    userId: actorId === rental.ownerId ? rental.requesterId : rental.ownerId,
+    type: "rental_status",
+    rentalId: rental.id,
+    postId: rental.postId,
+    actorId,
+    message: action(postTitle(post?.caption) ?? "the item"),
+  });
+}
@@ -0,0 +1,61 @@
+import { calendarDaysBetween } from "@shared/calendarDates";
+import type { Post, RentalQuote } from "@shared/schema";
+
+// Work in cents so decimal column values add up exactly.
+function toCents(value: string | null | undefined): number {
+  return Math.round(parseFloat(value || "0") * 100);
+}
+
+function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function rentalDays(startDate: Date, endDate: Date): number {
+  return Math.max(1, calendarDaysBetween(startDate, endDate));
+}
+
+/**
+ * Prices a rental of `post` between two dates. Whole weeks use the weekly
+ * rate when the owner set one (capped so a week is never dearer than seven
+ * days), the remaining days use the daily rate. The deposit is refundable
+ * but is collected up front, so it is part of the total.
+ */
+export function quoteRental(
+  post: Pick<Post, "rentPrice" | "rentWeeklyPrice" | "rentMinDays" | "rentDeposit" | "rentCleaningFee">,
+  startDate: Date,
+  endDate: Date,
+): RentalQuote {
+  const days = rentalDays(startDate, endDate);
+  const daily = toCents(post.rentPrice);
+  const weekly = post.rentWeeklyPrice ? Math.min(toCents(post.rentWeeklyPrice), daily * 7) : null;
+
+  const rentalFee = weekly !== null
+    ? Math.floor(days / 7) * weekly + (days % 7) * daily
+    : days * daily;
+  const cleaningFee = toCents(post.rentCleaningFee);
+  const securityDeposit = toCents(post.rentDeposit);
+
+  return {
+    days,
+    minDays: post.rentMinDays || 1,
+    dailyRate: fromCents(daily),
+    weeklyRate: weekly !== null ? fromCents(weekly) : null,
+    rentalFee: fromCents(rentalFee),
+    cleaningFee: fromCents(cleaningFee),
+    securityDeposit: fromCents(securityDeposit),
+    totalPrice: fromCents(rentalFee + cleaningFee + securityDeposit),
+  };
+}
+
+/**
+ * Total late fee for a rental `lateDays` days past its end date. The owner's
+ * per-day late fee wins; otherwise `defaultPerDay`, otherwise the daily rate.
+ */
+export function lateFeeTotal(
+  post: Pick<Post, "rentLateFee" | "rentPrice">,
+  lateDays: number,
+  defaultPerDay?: string,
+): string {
+  const perDay = toCents(post.rentLateFee || defaultPerDay || post.rentPrice);
+  return fromCents(perDay * Math.max(0, lateDays));
+}
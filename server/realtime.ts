@@ -0,0 +1,158 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import type { Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { getSession } from "./replitAuth";
+import { storage } from "./storage";
+import { onAppEvent } from "./events";
+import { describeNotification } from "./notifications";
+import type { RealtimeClientMessage, RealtimeEvent } from "@shared/schema";
+
+// Pushes notifications, direct messages, like/comment counts and rental
+// changes to signed-in clients on /ws. Clients keep working without it: they
+// fall back to polling and refetch what they missed when the socket comes back.
+
+const HEARTBEAT_MS = 30 * 1000;
+const MAX_SUBSCRIBED_POSTS = 200;
+
+interface Client {
+  socket: WebSocket;
+  userId: string;
+  postIds: Set<string>;
+  alive: boolean;
+}
+
+const clientsByUser = new Map<string, Set<Client>>();
+
+function send(client: Client, event: RealtimeEvent) {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(event));
+  }
+}
+
+function sendToUser(userId: string, event: RealtimeEvent) {
+  clientsByUser.get(userId)?.forEach((client) => send(client, event));
+}
+
+// Resolves the signed-in user from the session cookie, the same way
+// isAuthenticated does for HTTP requests. Expired sessions that can still be
+// refreshed are let through; the next HTTP request refreshes them.
+function authenticate(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve) => {
+    getSession()(req as Request, {} as Response, () => {
+      const user = ((req as Request).session as any)?.passport?.user;
+      const userId: string | undefined = user?.claims?.sub;
+      if (!userId) return resolve(null);
+      const now = Math.floor(Date.now() / 1000);
+      resolve(user.expires_at > now || user.refresh_token ? userId : null);
+    });
+  });
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function register(client: Client) {
+  const clients = clientsByUser.get(client.userId) ?? new Set<Client>();
+  clients.add(client);
+  clientsByUser.set(client.userId, clients);
+
+  client.socket.on("pong", () => {
+    client.alive = true;
+  });
+
+  client.socket.on("message", (data) => {
+    let message: RealtimeClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+    if (message?.type === "subscribe" && Array.isArray(message.postIds)) {
+      client.postIds = new Set(
+        message.postIds.filter((id): id is string => typeof id === "string").slice(0, MAX_SUBSCRIBED_POSTS),
+      );
+    }
+  });
+
+  client.socket.on("close", () => {
+    clients.delete(client);
+    if (clients.size === 0) clientsByUser.delete(client.userId);
+  });
+}
+
+/** Attaches the /ws endpoint to the HTTP server and starts relaying app events. */
+export function setupRealtime(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    // Other upgrades (the Vite HMR socket in development) are not ours.
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== "/ws") return;
+
+    authenticate(req)
+      .then((userId) => {
+        if (!userId) return reject(socket, "401 Unauthorized");
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          register({ socket: ws, userId, postIds: new Set(), alive: true });
+        });
+      })
+      .catch((error) => {
+        console.error("Error authenticating realtime connection:", error);
+        reject(socket, "500 Internal Server Error");
+      });
+  });
+
+  const heartbeat = setInterval(() => {
+    clientsByUser.forEach((clients) =>
+      clients.forEach((client) => {
+        if (!client.alive) return client.socket.terminate();
+        client.alive = false;
+        client.socket.ping();
+      }),
+    );
+  }, HEARTBEAT_MS);
+  server.on("close", () => clearInterval(heartbeat));
+
+  onAppEvent("notification", (created) => {
+    if (!clientsByUser.has(created.userId)) return;
+    Promise.all([storage.getNotification(created.id), storage.getUnreadNotificationCount(created.userId)])
+      .then(([notification, unreadCount]) => {
+        if (!notification) return;
+        sendToUser(created.userId, {
+          type: "notification",
+          notification: describeNotification(notification),
+          unreadCount,
+        });
+      })
+      .catch((error) => console.error("Error pushing notification:", error));
+  });
+
+  onAppEvent("postCounts", (counts) => {
+    const event: RealtimeEvent = { type: "postCounts", ...counts };
+    clientsByUser.forEach((clients) =>
+      clients.forEach((client) => {
+        if (client.postIds.has(counts.postId)) send(client, event);
+      }),
+    );
+  });
+
+  onAppEvent("rental", (rental) => {
+    const event: RealtimeEvent = { type: "rental", rental };
+    sendToUser(rental.ownerId, event);
+    sendToUser(rental.requesterId, event);
+  });
+
+  onAppEvent("message", (message, conversation) => {
+    const event: RealtimeEvent = { type: "message", message };
+    sendToUser(conversation.userAId, event);
+    sendToUser(conversation.userBId, event);
+  });
+
+  onAppEvent("messagesRead", ({ conversation, readerId, readAt }) => {
+    const event: RealtimeEvent = { type: "messagesRead", conversationId: conversation.id, readerId, readAt };
+    sendToUser(conversation.userAId, event);
+    sendToUser(conversation.userBId, event);
+  });
+}
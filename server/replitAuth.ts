@@ -22,7 +22,9 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
+// Memoized so the HTTP middleware and the realtime upgrade handler share one
+// session store.
+export const getSession = memoize(() => {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
@@ -42,7 +44,7 @@ export function getSession() {
       maxAge: sessionTtl,
     },
   });
-}
+});
 
 function updateUserSession(
   user: any,
@@ -155,3 +157,18 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
     return;
   }
 };
+
+export const isAdmin: RequestHandler = async (req, res, next) => {
+  const user = req.user as any;
+  let dbUser;
+  try {
+    dbUser = await storage.getUser(user.claims.sub);
+  } catch (error) {
+    console.error("Error checking admin access:", error);
+    return res.status(500).json({ message: "Failed to check access" });
+  }
+  if (!dbUser?.isAdmin) {
+    return res.status(403).json({ message: "Forbidden" });
+  }
+  next();
+};
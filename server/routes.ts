@@ -1,14 +1,73 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertPostSchema, insertRentalRequestSchema, insertCommentSchema } from "@shared/schema";
+import { setupAuth, isAuthenticated, isAdmin } from "./replitAuth";
+import {
+  insertPostSchema,
+  updatePostSchema,
+  postGallerySchema,
+  postImageAltTextsSchema,
+  MAX_POST_IMAGES,
+  type PostImageInput,
+  type UploadedImage,
+  insertRentalRequestSchema,
+  insertRentalBlockedDateSchema,
+  rentalDateRangeSchema,
+  insertCommentSchema,
+  updateCommentSchema,
+  COMMENT_EDIT_WINDOW_MINUTES,
+  insertRentalReviewSchema,
+  insertConditionReportSchema,
+  insertRentalDisputeSchema,
+  insertWaitlistEntrySchema,
+  disputeResponseSchema,
+  resolveDisputeSchema,
+  updateProfileSchema,
+  sendMessageSchema,
+  type Conversation,
+  type CursorPage,
+  type ConditionReportStage,
+  type RentalParty,
+  type RentalRequest,
+  type UserWithStats,
+  type PublicProfile,
+  type TrendingTag,
+  updateRentalStatusSchema,
+  rentalStatusTransitions,
+  rentalStatuses,
+  type RentalStatus,
+  disputeStatuses,
+  calendarRentalStatuses,
+  disputeStatusListSchema,
+} from "@shared/schema";
+import { quoteRental } from "./pricing";
+import { promoteWaitlist } from "./waitlist";
+import { buildRentalCalendar } from "./ical";
+import { indexCommentText, indexPostText } from "./mentions";
+import { setupRealtime } from "./realtime";
+import { openRentalConversation } from "./messages";
+import {
+  describeNotification,
+  notifyComment,
+  notifyFollow,
+  notifyLike,
+  notifyPostRemoved,
+  notifyRentalRequest,
+  notifyRentalStatus,
+} from "./notifications";
+import { discardImages, discardUploads, processUpload, processUploads, SUPPORTED_IMAGE_MESSAGE } from "./images";
+import { blobs } from "./blobs";
+import { extractHashtags, normalizeTag, normalizeTags } from "@shared/richText";
+import { earliestBookableDate } from "@shared/calendarDates";
+import { randomBytes } from "crypto";
 import multer from "multer";
+import os from "os";
 import path from "path";
 
-// Configure multer for image uploads
+// Configure multer for image uploads. Raw files wait in a temp dir until
+// server/images.ts has saved the cleaned-up copies to the blob store.
 const upload = multer({
-  dest: "uploads/",
+  dest: path.join(os.tmpdir(), "thriftshare-uploads"),
   limits: {
     fileSize: 5 * 1024 * 1024, // 5MB limit
   },
@@ -21,6 +80,46 @@ const upload = multer({
   },
 });
 
+function rentalPartyOf(rental: RentalRequest, userId: string): RentalParty | null {
+  if (rental.ownerId === userId) return "owner";
+  if (rental.requesterId === userId) return "requester";
+  return null;
+}
+
+// Which rental statuses each condition report can be filed in.
+const conditionReportWindows: Record<ConditionReportStage, RentalStatus[]> = {
+  check_out: ["approved", "active"],
+  check_in: ["active", "overdue", "returned"],
+};
+
+function isParticipant(conversation: Conversation, userId: string): boolean {
+  return conversation.userAId === userId || conversation.userBId === userId;
+}
+
+// Callers fetch one row more than `limit`; if it came back there is another page.
+function toCursorPage<T extends { id: string }>(rows: T[], limit: number): CursorPage<T> {
+  const items = rows.slice(0, limit);
+  return { items, nextCursor: rows.length > limit ? items[items.length - 1].id : null };
+}
+
+function pageLimit(value: unknown, fallback: number): number {
+  return Math.min(Math.max(parseInt(value as string) || fallback, 1), 100);
+}
+
+// Structured fields sent alongside files arrive as JSON strings.
+function parseJsonField(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function toPublicProfile({ email: _email, isAdmin: _isAdmin, ...profile }: UserWithStats): PublicProfile {
+  return profile;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -28,6 +127,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize badges
   await storage.initializeBadges();
 
+  // Backfill the tag index for posts from before it existed
+  storage.syncTagIndex().catch((error) => console.error("Error syncing tag index:", error));
+  // ...and give older posts a gallery holding their single photo
+  storage.syncPostImages().catch((error) => console.error("Error syncing post images:", error));
+
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -41,11 +145,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Post routes
-  app.get("/api/posts", async (req, res) => {
+  app.get("/api/posts", async (req: any, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 20;
       const offset = parseInt(req.query.offset as string) || 0;
-      const posts = await storage.getPosts(limit, offset);
+      const posts = await storage.getPosts(limit, offset, req.user?.claims?.sub);
       res.json(posts);
     } catch (error) {
       console.error("Error fetching posts:", error);
@@ -53,6 +157,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/feed/following", isAuthenticated, async (req: any, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const offset = parseInt(req.query.offset as string) || 0;
+      const posts = await storage.getFollowingFeed(req.user.claims.sub, limit, offset);
+      res.json(posts);
+    } catch (error) {
+      console.error("Error fetching following feed:", error);
+      res.status(500).json({ message: "Failed to fetch feed" });
+    }
+  });
+
+  app.get("/api/posts/drafts", isAuthenticated, async (req: any, res) => {
+    try {
+      const drafts = await storage.getDrafts(req.user.claims.sub);
+      res.json(drafts);
+    } catch (error) {
+      console.error("Error fetching drafts:", error);
+      res.status(500).json({ message: "Failed to fetch drafts" });
+    }
+  });
+
   app.get("/api/posts/:id", async (req, res) => {
     try {
       const userId = req.user?.claims?.sub;
@@ -67,34 +193,243 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/posts", isAuthenticated, upload.single("image"), async (req: any, res) => {
+  // "image" is the single-photo field older clients send; "images" holds the gallery in order.
+  const postUploads = upload.fields([
+    { name: "image", maxCount: 1 },
+    { name: "images", maxCount: MAX_POST_IMAGES },
+  ]);
+
+  app.post("/api/posts", isAuthenticated, postUploads, async (req: any, res) => {
+    const files: Express.Multer.File[] = [...(req.files?.image ?? []), ...(req.files?.images ?? [])];
     try {
       const userId = req.user.claims.sub;
-      
-      if (!req.file) {
+
+      if (files.length === 0) {
         return res.status(400).json({ message: "Image is required" });
       }
+      if (files.length > MAX_POST_IMAGES) {
+        return res.status(400).json({ message: `A post can have at most ${MAX_POST_IMAGES} photos` });
+      }
+
+      // Alt texts line up with the files by index.
+      const altTexts = postImageAltTextsSchema.safeParse(parseJsonField(req.body.altTexts) ?? []);
+      if (!altTexts.success) {
+        return res.status(400).json({ message: altTexts.error.errors[0]?.message ?? "Invalid alt text" });
+      }
 
-      // In a real app, you'd upload to a cloud storage service
-      // For now, we'll use a placeholder URL
-      const imageUrl = `/uploads/${req.file.filename}`;
+      // Multipart fields arrive as strings; blank optional numbers mean "not set".
+      const optionalDecimal = (value?: string) => (value && value.trim() ? value.trim() : undefined);
 
       const postData = {
         ...req.body,
         userId,
-        imageUrl,
-        tags: req.body.tags ? req.body.tags.split(",") : [],
+        // Filled in with the cover once the photos are processed, which is
+        // left until the post is known to be valid.
+        imageUrl: "",
+        // Explicit tags plus #hashtags from the caption, lowercased and de-duplicated.
+        tags: normalizeTags([
+          ...(req.body.tags ? req.body.tags.split(",") : []),
+          ...extractHashtags(req.body.caption || ""),
+        ]),
+        availableForRent: req.body.availableForRent === "true",
+        pricePaid: optionalDecimal(req.body.pricePaid),
+        rentPrice: optionalDecimal(req.body.rentPrice),
+        rentWeeklyPrice: optionalDecimal(req.body.rentWeeklyPrice),
+        rentMinDays: parseInt(req.body.rentMinDays) || 1,
+        rentDeposit: optionalDecimal(req.body.rentDeposit),
+        rentCleaningFee: optionalDecimal(req.body.rentCleaningFee),
+        rentLateFee: optionalDecimal(req.body.rentLateFee),
         ecoPoints: parseInt(req.body.ecoPoints) || 50,
         waterSaved: req.body.waterSaved || "2.5",
         carbonReduced: req.body.carbonReduced || "1.2",
+        // Only drafts can wait for a publish time.
+        status: req.body.status === "draft" ? "draft" : "published",
+        publishAt: req.body.status === "draft" ? req.body.publishAt : undefined,
       };
 
-      const validatedData = insertPostSchema.parse(postData);
-      const post = await storage.createPost(validatedData);
-      res.status(201).json(post);
+      const parsed = insertPostSchema.safeParse(postData);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid post" });
+      }
+
+      const uploaded = await processUploads(files);
+      if (!uploaded) {
+        return res.status(400).json({ message: SUPPORTED_IMAGE_MESSAGE });
+      }
+      const images = uploaded.map((image, index) => ({ ...image, altText: altTexts.data[index] ?? null }));
+      // The first photo is the cover.
+      const post = await storage
+        .createPost({ ...parsed.data, imageUrl: images[0].url }, images)
+        .catch(async (error) => {
+          await discardImages(uploaded);
+          throw error;
+        });
+      // Drafts are indexed when they are published.
+      if (post.status === "published") {
+        indexPostText(post).catch((error) => console.error("Error indexing post text:", error));
+      }
+      res.status(201).json({ ...post, images: await storage.getPostImages(post.id) });
     } catch (error) {
       console.error("Error creating post:", error);
       res.status(500).json({ message: "Failed to create post" });
+    } finally {
+      await discardUploads(files);
+    }
+  });
+
+  // Takes JSON, or multipart when photos change: new files under "images" and
+  // the resulting order under "gallery" (see postGallerySchema).
+  app.patch("/api/posts/:id", isAuthenticated, upload.array("images", MAX_POST_IMAGES), async (req: any, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    try {
+      const post = await storage.getPost(req.params.id, req.user.claims.sub);
+      if (!post) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      if (post.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "You can only edit your own posts" });
+      }
+
+      const { gallery: rawGallery, ...changes } = req.body;
+      // Multipart fields arrive as strings.
+      if (req.is("multipart/form-data")) {
+        if (changes.availableForRent !== undefined) changes.availableForRent = changes.availableForRent === "true";
+        if (changes.rentMinDays !== undefined) changes.rentMinDays = parseInt(changes.rentMinDays) || 1;
+      }
+      // Blank prices clear the field.
+      for (const field of ["pricePaid", "rentPrice", "rentWeeklyPrice", "rentDeposit", "rentCleaningFee", "rentLateFee"]) {
+        if (typeof changes[field] === "string" && !changes[field].trim()) changes[field] = null;
+      }
+      // Same merge as on create: explicit tags plus #hashtags from the caption.
+      if (changes.caption !== undefined || changes.tags !== undefined) {
+        const explicitTags = Array.isArray(changes.tags)
+          ? changes.tags
+          : typeof changes.tags === "string"
+            ? changes.tags.split(",")
+            : post.tags ?? [];
+        changes.tags = normalizeTags([
+          ...explicitTags.filter((tag: unknown): tag is string => typeof tag === "string"),
+          ...extractHashtags((changes.caption ?? post.caption) || ""),
+        ]);
+      }
+
+      const parsed = updatePostSchema.safeParse(changes);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid post" });
+      }
+      if (parsed.data.publishAt !== undefined && post.status !== "draft") {
+        return res.status(400).json({ message: "Only drafts can be scheduled" });
+      }
+
+      let gallery: PostImageInput[] | undefined;
+      let processed: UploadedImage[] = [];
+      if (rawGallery !== undefined) {
+        const parsedGallery = postGallerySchema.safeParse(parseJsonField(rawGallery));
+        if (!parsedGallery.success) {
+          return res.status(400).json({ message: parsedGallery.error.errors[0]?.message ?? "Invalid photos" });
+        }
+        const ownIds = new Set(post.images.map((image) => image.id));
+        for (const image of parsedGallery.data) {
+          if ("id" in image ? !ownIds.has(image.id) : image.file >= files.length) {
+            return res.status(400).json({ message: "Photos must be this post's or newly uploaded" });
+          }
+        }
+        // Only files the gallery uses are processed; the rest are discarded.
+        const used = Array.from(
+          new Set(parsedGallery.data.flatMap((image) => ("file" in image ? [image.file] : []))),
+        );
+        const uploaded = await processUploads(used.map((index) => files[index]));
+        if (!uploaded) {
+          return res.status(400).json({ message: SUPPORTED_IMAGE_MESSAGE });
+        }
+        processed = uploaded;
+        gallery = parsedGallery.data.map((image) =>
+          "id" in image
+            ? { id: image.id, altText: image.altText }
+            : { ...uploaded[used.indexOf(image.file)], altText: image.altText },
+        );
+      } else if (files.length > 0) {
+        if (post.images.length + files.length > MAX_POST_IMAGES) {
+          return res.status(400).json({ message: `A post can have at most ${MAX_POST_IMAGES} photos` });
+        }
+        const uploaded = await processUploads(files);
+        if (!uploaded) {
+          return res.status(400).json({ message: SUPPORTED_IMAGE_MESSAGE });
+        }
+        processed = uploaded;
+        // New photos without an order go after the existing ones.
+        gallery = [
+          ...post.images.map((image) => ({ id: image.id, altText: image.altText })),
+          ...processed.map((image) => ({ ...image, altText: null })),
+        ];
+      }
+
+      const updated = await storage.updatePost(post.id, parsed.data, gallery).catch(async (error) => {
+        await discardImages(processed);
+        throw error;
+      });
+      if (!updated) {
+        // Deleted meanwhile; the new photos were never attached.
+        await discardImages(processed);
+        return res.status(404).json({ message: "Post not found" });
+      }
+      if (updated.status === "published") {
+        indexPostText(updated).catch((error) => console.error("Error indexing post text:", error));
+      }
+      res.json({ ...updated, images: await storage.getPostImages(updated.id) });
+    } catch (error) {
+      console.error("Error updating post:", error);
+      res.status(500).json({ message: "Failed to update post" });
+    } finally {
+      await discardUploads(files);
+    }
+  });
+
+  app.post("/api/posts/:id/publish", isAuthenticated, async (req: any, res) => {
+    try {
+      const post = await storage.getPost(req.params.id, req.user.claims.sub);
+      if (!post) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      if (post.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "You can only publish your own posts" });
+      }
+
+      const published = await storage.publishPost(post.id);
+      if (!published) {
+        return res.status(409).json({ message: "This post is already published" });
+      }
+      indexPostText(published).catch((error) => console.error("Error indexing post text:", error));
+      res.json(published);
+    } catch (error) {
+      console.error("Error publishing post:", error);
+      res.status(500).json({ message: "Failed to publish post" });
+    }
+  });
+
+  app.delete("/api/posts/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const post = await storage.getPost(req.params.id, req.user.claims.sub);
+      if (!post) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      if (post.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "You can only delete your own posts" });
+      }
+
+      const cancelled = await storage.deletePost(post);
+      if (!cancelled) {
+        return res.status(409).json({
+          message: "This item has a rental booked or in progress. Finish or cancel it before deleting the post",
+        });
+      }
+      for (const rental of cancelled) {
+        notifyPostRemoved(rental, post).catch((error) => console.error("Error sending post removal notification:", error));
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting post:", error);
+      res.status(500).json({ message: "Failed to delete post" });
     }
   });
 
@@ -108,12 +443,189 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Availability routes
+  app.get("/api/posts/:id/availability", async (req, res) => {
+    try {
+      const ranges = await storage.getBusyRanges(req.params.id);
+      res.json(ranges);
+    } catch (error) {
+      console.error("Error fetching availability:", error);
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  });
+
+  app.get("/api/posts/:id/quote", async (req, res) => {
+    try {
+      const post = await storage.getPost(req.params.id);
+      if (!post || !post.availableForRent) {
+        return res.status(404).json({ message: "Rental item not found" });
+      }
+
+      const parsed = rentalDateRangeSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid dates" });
+      }
+
+      res.json(quoteRental(post, parsed.data.startDate, parsed.data.endDate));
+    } catch (error) {
+      console.error("Error quoting rental:", error);
+      res.status(500).json({ message: "Failed to quote rental" });
+    }
+  });
+
+  app.get("/api/posts/:id/blocked-dates", isAuthenticated, async (req: any, res) => {
+    try {
+      const post = await storage.getPost(req.params.id);
+      if (!post || post.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      const blocks = await storage.getBlockedDates(post.id);
+      res.json(blocks);
+    } catch (error) {
+      console.error("Error fetching blocked dates:", error);
+      res.status(500).json({ message: "Failed to fetch blocked dates" });
+    }
+  });
+
+  app.post("/api/posts/:id/blocked-dates", isAuthenticated, async (req: any, res) => {
+    try {
+      const post = await storage.getPost(req.params.id);
+      if (!post || post.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+
+      const parsed = insertRentalBlockedDateSchema.safeParse({
+        postId: post.id,
+        startDate: req.body.startDate,
+        endDate: req.body.endDate,
+        reason: req.body.reason,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid dates" });
+      }
+
+      if (await storage.hasBookingConflict(post.id, parsed.data.startDate, parsed.data.endDate)) {
+        return res.status(409).json({ message: "Those dates overlap an approved rental or another block" });
+      }
+
+      const block = await storage.createBlockedDate(parsed.data);
+      res.status(201).json(block);
+    } catch (error) {
+      console.error("Error blocking dates:", error);
+      res.status(500).json({ message: "Failed to block dates" });
+    }
+  });
+
+  app.delete("/api/posts/:id/blocked-dates/:blockId", isAuthenticated, async (req: any, res) => {
+    try {
+      const post = await storage.getPost(req.params.id);
+      if (!post || post.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      const deleted = await storage.deleteBlockedDate(req.params.blockId, post.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Blocked dates not found" });
+      }
+      promoteWaitlist(post.id).catch((error) => console.error("Error promoting waitlist:", error));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error unblocking dates:", error);
+      res.status(500).json({ message: "Failed to unblock dates" });
+    }
+  });
+
+  // Waitlist routes
+  app.get("/api/posts/:id/waitlist", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const post = await storage.getPost(req.params.id);
+      if (!post) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      // Owners see everyone waiting; everyone else only sees their own entries.
+      const entries = post.userId === userId
+        ? await storage.getWaitlist(post.id, ["waiting"])
+        : await storage.getWaitlist(post.id, ["waiting", "notified", "requested"], userId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ message: "Failed to fetch waitlist" });
+    }
+  });
+
+  app.post("/api/posts/:id/waitlist", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const post = await storage.getPost(req.params.id);
+      if (!post || !post.availableForRent) {
+        return res.status(404).json({ message: "Rental item not found" });
+      }
+      if (post.userId === userId) {
+        return res.status(400).json({ message: "You cannot rent your own item" });
+      }
+
+      const parsed = insertWaitlistEntrySchema.safeParse({
+        postId: post.id,
+        userId,
+        startDate: req.body.startDate,
+        endDate: req.body.endDate,
+        message: req.body.message,
+        autoRequest: req.body.autoRequest === true || req.body.autoRequest === "true",
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid dates" });
+      }
+
+      if (parsed.data.startDate < earliestBookableDate()) {
+        return res.status(400).json({ message: "Rental cannot start in the past" });
+      }
+
+      const quote = quoteRental(post, parsed.data.startDate, parsed.data.endDate);
+      if (quote.days < quote.minDays) {
+        return res.status(400).json({ message: `This item must be rented for at least ${quote.minDays} days` });
+      }
+
+      if (!(await storage.hasBookingConflict(post.id, parsed.data.startDate, parsed.data.endDate))) {
+        return res.status(400).json({ message: "Those dates are free, so send a rental request instead" });
+      }
+
+      const entry = await storage.createWaitlistEntry(parsed.data);
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ message: "Failed to join waitlist" });
+    }
+  });
+
+  app.delete("/api/waitlist/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const entry = await storage.getWaitlistEntry(req.params.id);
+      if (!entry || entry.userId !== req.user.claims.sub) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      const left = await storage.updateWaitlistEntryStatus(entry.id, "waiting", "left");
+      if (!left) {
+        return res.status(409).json({ message: "This waitlist entry has already been promoted" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      res.status(500).json({ message: "Failed to leave waitlist" });
+    }
+  });
+
   // Like routes
   app.post("/api/posts/:id/like", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const postId = req.params.id;
+      if (!(await storage.getPost(postId))) {
+        return res.status(404).json({ message: "Post not found" });
+      }
       const isLiked = await storage.toggleLike(userId, postId);
+      if (isLiked) {
+        notifyLike(postId, userId).catch((error) => console.error("Error sending like notification:", error));
+      }
       res.json({ isLiked });
     } catch (error) {
       console.error("Error toggling like:", error);
@@ -121,6 +633,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Tag routes
+  app.get("/api/tags/trending", async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 7, 1), 30);
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+      const now = Date.now();
+      const dayMs = 24 * 60 * 60 * 1000;
+      const since = new Date(now - days * dayMs);
+      const previousSince = new Date(now - 2 * days * dayMs);
+
+      const trending: TrendingTag[] = (await storage.getTagUsage(since, previousSince, limit)).map((usage) => ({
+        ...usage,
+        usesPerDay: Math.round((usage.recentUses / days) * 10) / 10,
+      }));
+
+      // Quiet weeks still get suggestions: pad with the most-used tags overall.
+      if (trending.length < limit) {
+        const seen = new Set(trending.map((tag) => tag.tag));
+        for (const tag of await storage.getPopularTags(limit)) {
+          if (trending.length >= limit) break;
+          if (seen.has(tag.tag)) continue;
+          trending.push({ tag: tag.tag, postsCount: tag.postsCount, recentUses: 0, previousUses: 0, usesPerDay: 0 });
+        }
+      }
+
+      res.json(trending);
+    } catch (error) {
+      console.error("Error fetching trending tags:", error);
+      res.status(500).json({ message: "Failed to fetch trending tags" });
+    }
+  });
+
+  app.get("/api/tags/:tag", async (req, res) => {
+    try {
+      const tag = normalizeTag(req.params.tag);
+      const row = tag && await storage.getTag(tag);
+      if (!row) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      res.json(row);
+    } catch (error) {
+      console.error("Error fetching tag:", error);
+      res.status(500).json({ message: "Failed to fetch tag" });
+    }
+  });
+
+  app.get("/api/tags/:tag/posts", async (req: any, res) => {
+    try {
+      const tag = normalizeTag(req.params.tag);
+      if (!tag) {
+        return res.json([]);
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const posts = await storage.getPostsByTag(tag, limit, offset, req.user?.claims?.sub);
+      res.json(posts);
+    } catch (error) {
+      console.error("Error fetching tag posts:", error);
+      res.status(500).json({ message: "Failed to fetch posts" });
+    }
+  });
+
   // Comment routes
   app.get("/api/posts/:id/comments", async (req, res) => {
     try {
@@ -136,15 +710,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const postId = req.params.id;
+      if (!(await storage.getPost(postId))) {
+        return res.status(404).json({ message: "Post not found" });
+      }
       
-      const commentData = {
+      // Replies to a reply join the top-level thread, so threads stay one level deep.
+      let parentId: string | null = null;
+      if (req.body.parentId) {
+        const parent = await storage.getComment(req.body.parentId);
+        if (!parent || parent.postId !== postId || parent.deletedAt) {
+          return res.status(404).json({ message: "Comment not found" });
+        }
+        parentId = parent.parentId ?? parent.id;
+      }
+
+      const parsed = insertCommentSchema.safeParse({
         userId,
         postId,
+        parentId,
         content: req.body.content,
-      };
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid comment" });
+      }
 
-      const validatedData = insertCommentSchema.parse(commentData);
-      const comment = await storage.createComment(validatedData);
+      const comment = await storage.createComment(parsed.data);
+      indexCommentText(comment).catch((error) => console.error("Error indexing comment text:", error));
+      notifyComment(comment).catch((error) => console.error("Error sending comment notification:", error));
       res.status(201).json(comment);
     } catch (error) {
       console.error("Error creating comment:", error);
@@ -152,6 +744,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/comments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const comment = await storage.getComment(req.params.id);
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "You can only edit your own comments" });
+      }
+      const editableUntil = (comment.createdAt?.getTime() ?? 0) + COMMENT_EDIT_WINDOW_MINUTES * 60 * 1000;
+      if (Date.now() > editableUntil) {
+        return res.status(409).json({
+          message: `Comments can only be edited for ${COMMENT_EDIT_WINDOW_MINUTES} minutes after posting`,
+        });
+      }
+
+      const parsed = updateCommentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid comment" });
+      }
+
+      const updated = await storage.updateCommentContent(comment.id, parsed.data.content);
+      if (!updated) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      indexCommentText(updated).catch((error) => console.error("Error indexing comment text:", error));
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  // Authors can delete their comments; post owners can delete any comment on their post.
+  app.delete("/api/comments/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const comment = await storage.getComment(req.params.id);
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (comment.userId !== userId) {
+        const post = await storage.getPost(comment.postId);
+        if (post?.userId !== userId) {
+          return res.status(403).json({ message: "You cannot delete this comment" });
+        }
+      }
+
+      await storage.deleteComment(comment.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
   // Rental routes
   app.get("/api/rentals", async (req, res) => {
     try {
@@ -168,14 +816,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/rentals/request", isAuthenticated, async (req: any, res) => {
     try {
       const requesterId = req.user.claims.sub;
-      
+
+      const post = await storage.getPost(req.body.postId);
+      if (!post || !post.availableForRent) {
+        return res.status(404).json({ message: "Rental item not found" });
+      }
+      if (post.userId === requesterId) {
+        return res.status(400).json({ message: "You cannot rent your own item" });
+      }
+
+      // New requests always start pending and belong to the post's owner,
+      // whatever the client sent.
       const requestData = {
         ...req.body,
         requesterId,
+        ownerId: post.userId,
+        status: "pending",
       };
 
-      const validatedData = insertRentalRequestSchema.parse(requestData);
+      const parsed = insertRentalRequestSchema.safeParse(requestData);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid rental request" });
+      }
+      const validatedData = parsed.data;
+
+      if (validatedData.startDate < earliestBookableDate()) {
+        return res.status(400).json({ message: "Rental cannot start in the past" });
+      }
+
+      const quote = quoteRental(post, validatedData.startDate, validatedData.endDate);
+      if (quote.days < quote.minDays) {
+        return res.status(400).json({ message: `This item must be rented for at least ${quote.minDays} days` });
+      }
+
+      if (await storage.hasBookingConflict(post.id, validatedData.startDate, validatedData.endDate)) {
+        return res.status(409).json({ message: "This item is already booked for those dates" });
+      }
+
       const request = await storage.createRentalRequest(validatedData);
+      notifyRentalRequest(request).catch((error) => console.error("Error sending rental request notification:", error));
+      openRentalConversation(request).catch((error) => console.error("Error opening rental conversation:", error));
       res.status(201).json(request);
     } catch (error) {
       console.error("Error creating rental request:", error);
@@ -194,23 +874,807 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Badge routes
-  app.get("/api/badges/user/:userId", async (req, res) => {
+  app.get("/api/rentals/incoming", isAuthenticated, async (req: any, res) => {
     try {
-      const badges = await storage.getUserBadges(req.params.userId);
-      res.json(badges);
+      const userId = req.user.claims.sub;
+      const statuses = typeof req.query.status === "string"
+        ? req.query.status.split(",").filter((status: string): status is RentalStatus =>
+            (rentalStatuses as readonly string[]).includes(status))
+        : undefined;
+      const requests = await storage.getIncomingRentalRequests(userId, statuses);
+      res.json(requests);
     } catch (error) {
-      console.error("Error fetching user badges:", error);
-      res.status(500).json({ message: "Failed to fetch user badges" });
+      console.error("Error fetching incoming rental requests:", error);
+      res.status(500).json({ message: "Failed to fetch incoming rental requests" });
     }
   });
 
-  // Serve uploaded images
-  app.use("/uploads", (req, res, next) => {
-    // In production, you'd serve from cloud storage
-    res.status(404).json({ message: "Image not found" });
+  app.get("/api/rentals/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const rental = await storage.getRentalRequestWithDetails(req.params.id);
+      if (!rental || !rentalPartyOf(rental, req.user.claims.sub)) {
+        return res.status(404).json({ message: "Rental request not found" });
+      }
+      res.json(rental);
+    } catch (error) {
+      console.error("Error fetching rental request:", error);
+      res.status(500).json({ message: "Failed to fetch rental request" });
+    }
   });
 
+  app.patch("/api/rentals/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = updateRentalStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid rental status" });
+      }
+      const nextStatus = parsed.data.status;
+
+      const rental = await storage.getRentalRequest(req.params.id);
+      if (!rental) {
+        return res.status(404).json({ message: "Rental request not found" });
+      }
+
+      const party = rentalPartyOf(rental, userId);
+      if (!party) {
+        return res.status(403).json({ message: "Not your rental request" });
+      }
+
+      const currentStatus = rental.status as RentalStatus;
+      const allowedParty = rentalStatusTransitions[currentStatus]?.[nextStatus];
+      if (!allowedParty) {
+        return res.status(409).json({
+          message: `Cannot change rental from ${currentStatus} to ${nextStatus}`,
+        });
+      }
+      if (allowedParty !== party) {
+        return res.status(403).json({
+          message: `Only the ${allowedParty} can mark this rental ${nextStatus}`,
+        });
+      }
+
+      if (await storage.hasOpenDispute(rental.id)) {
+        return res.status(409).json({ message: "This rental is frozen until its open claim is resolved" });
+      }
+
+      if (
+        nextStatus === "approved" &&
+        (await storage.hasBookingConflict(rental.postId, rental.startDate, rental.endDate, rental.id))
+      ) {
+        return res.status(409).json({ message: "These dates overlap another approved rental" });
+      }
+
+      const updated = await storage.updateRentalRequestStatus(rental.id, currentStatus, nextStatus);
+      if (!updated) {
+        return res.status(409).json({ message: "Rental request was changed by someone else" });
+      }
+      if (nextStatus === "declined" || nextStatus === "cancelled") {
+        promoteWaitlist(rental.postId).catch((error) => console.error("Error promoting waitlist:", error));
+      }
+      notifyRentalStatus(updated, userId).catch((error) => console.error("Error sending rental status notification:", error));
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating rental request:", error);
+      res.status(500).json({ message: "Failed to update rental request" });
+    }
+  });
+
+  app.get("/api/rentals/:id/ics", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rental = await storage.getRentalRequestWithDetails(req.params.id);
+      if (!rental || !rentalPartyOf(rental, userId)) {
+        return res.status(404).json({ message: "Rental request not found" });
+      }
+      if (!calendarRentalStatuses.includes(rental.status as RentalStatus)) {
+        return res.status(409).json({ message: "Only agreed rentals can be added to a calendar" });
+      }
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="rental-${rental.id}.ics"`);
+      res.send(buildRentalCalendar([rental], userId, "ThriftShare rental"));
+    } catch (error) {
+      console.error("Error exporting rental calendar:", error);
+      res.status(500).json({ message: "Failed to export rental" });
+    }
+  });
+
+  // Calendar feed routes. The feed itself is public but keyed by a secret
+  // token, since calendar apps cannot log in.
+  app.get("/api/calendar/token", isAuthenticated, async (req: any, res) => {
+    try {
+      const feed = await storage.getCalendarFeed(req.user.claims.sub);
+      res.json({ token: feed?.token ?? null });
+    } catch (error) {
+      console.error("Error fetching calendar token:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feed" });
+    }
+  });
+
+  app.post("/api/calendar/token", isAuthenticated, async (req: any, res) => {
+    try {
+      const feed = await storage.setCalendarFeedToken(req.user.claims.sub, randomBytes(24).toString("base64url"));
+      res.status(201).json({ token: feed.token });
+    } catch (error) {
+      console.error("Error creating calendar token:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+
+  app.delete("/api/calendar/token", isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.deleteCalendarFeed(req.user.claims.sub);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking calendar token:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
+    }
+  });
+
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      if (!feed) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+      const rentals = await storage.getCalendarRentals(feed.userId, calendarRentalStatuses);
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.send(buildRentalCalendar(rentals, feed.userId));
+    } catch (error) {
+      console.error("Error serving calendar feed:", error);
+      res.status(500).json({ message: "Failed to serve calendar feed" });
+    }
+  });
+
+  // Condition report routes
+  app.get("/api/rentals/:id/condition-reports", isAuthenticated, async (req: any, res) => {
+    try {
+      const rental = await storage.getRentalRequest(req.params.id);
+      if (!rental || !rentalPartyOf(rental, req.user.claims.sub)) {
+        return res.status(404).json({ message: "Rental request not found" });
+      }
+      const reports = await storage.getConditionReports(rental.id);
+      res.json(reports);
+    } catch (error) {
+      console.error("Error fetching condition reports:", error);
+      res.status(500).json({ message: "Failed to fetch condition reports" });
+    }
+  });
+
+  app.post("/api/rentals/:id/condition-reports", isAuthenticated, upload.array("photos", 6), async (req: any, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    try {
+      const userId = req.user.claims.sub;
+      const rental = await storage.getRentalRequest(req.params.id);
+      const role = rental ? rentalPartyOf(rental, userId) : null;
+      if (!rental || !role) {
+        return res.status(404).json({ message: "Rental request not found" });
+      }
+
+      // Photos are processed last so a rejected report leaves nothing stored.
+      const parsed = insertConditionReportSchema.safeParse({
+        rentalId: rental.id,
+        reporterId: userId,
+        reporterRole: role,
+        stage: req.body.stage,
+        issues: req.body.issues ? req.body.issues.split(",") : [],
+        notes: req.body.notes,
+        photoUrls: [],
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid condition report" });
+      }
+
+      if (!conditionReportWindows[parsed.data.stage].includes(rental.status as RentalStatus)) {
+        return res.status(409).json({ message: `Cannot file a ${parsed.data.stage} report while the rental is ${rental.status}` });
+      }
+
+      const existing = await storage.getConditionReports(rental.id);
+      if (existing.some((report) => report.reporterId === userId && report.stage === parsed.data.stage)) {
+        return res.status(409).json({ message: "You have already filed this report" });
+      }
+
+      const photos = await processUploads(files);
+      if (!photos) {
+        return res.status(400).json({ message: SUPPORTED_IMAGE_MESSAGE });
+      }
+      const report = await storage.createConditionReport({
+        ...parsed.data,
+        photoUrls: photos.map((photo) => photo.url),
+      });
+      res.status(201).json(report);
+    } catch (error) {
+      console.error("Error creating condition report:", error);
+      res.status(500).json({ message: "Failed to create condition report" });
+    } finally {
+      await discardUploads(files);
+    }
+  });
+
+  // Dispute routes
+  app.get("/api/rentals/:id/disputes", isAuthenticated, async (req: any, res) => {
+    try {
+      const rental = await storage.getRentalRequest(req.params.id);
+      if (!rental || !rentalPartyOf(rental, req.user.claims.sub)) {
+        return res.status(404).json({ message: "Rental request not found" });
+      }
+      const disputes = await storage.getRentalDisputes(rental.id);
+      res.json(disputes);
+    } catch (error) {
+      console.error("Error fetching disputes:", error);
+      res.status(500).json({ message: "Failed to fetch disputes" });
+    }
+  });
+
+  app.post("/api/rentals/:id/disputes", isAuthenticated, upload.array("evidence", 6), async (req: any, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    try {
+      const userId = req.user.claims.sub;
+      const rental = await storage.getRentalRequest(req.params.id);
+      const party = rental ? rentalPartyOf(rental, userId) : null;
+      if (!rental || !party) {
+        return res.status(404).json({ message: "Rental request not found" });
+      }
+
+      // Evidence is processed last so a rejected claim leaves nothing stored.
+      const parsed = insertRentalDisputeSchema.safeParse({
+        rentalId: rental.id,
+        openedById: userId,
+        respondentId: party === "owner" ? rental.requesterId : rental.ownerId,
+        kind: req.body.kind,
+        description: req.body.description,
+        evidenceUrls: [],
+        checkOutReportId: req.body.checkOutReportId || null,
+        checkInReportId: req.body.checkInReportId || null,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid claim" });
+      }
+
+      // A damage claim compares the item at pickup with the item at return.
+      if (parsed.data.kind === "damage") {
+        const reports = await storage.getConditionReports(rental.id);
+        const checkOut = reports.find((report) => report.id === parsed.data.checkOutReportId);
+        const checkIn = reports.find((report) => report.id === parsed.data.checkInReportId);
+        if (checkOut?.stage !== "check_out" || checkIn?.stage !== "check_in") {
+          return res.status(400).json({ message: "A damage claim needs a pickup report and a return report for this rental" });
+        }
+      }
+
+      const evidence = await processUploads(files);
+      if (!evidence) {
+        return res.status(400).json({ message: SUPPORTED_IMAGE_MESSAGE });
+      }
+      const dispute = await storage.createRentalDispute({
+        ...parsed.data,
+        evidenceUrls: evidence.map((image) => image.url),
+      });
+      res.status(201).json(dispute);
+    } catch (error) {
+      console.error("Error opening dispute:", error);
+      res.status(500).json({ message: "Failed to open claim" });
+    } finally {
+      await discardUploads(files);
+    }
+  });
+
+  app.post("/api/disputes/:id/response", isAuthenticated, upload.array("evidence", 6), async (req: any, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    try {
+      const userId = req.user.claims.sub;
+      const dispute = await storage.getRentalDispute(req.params.id);
+      if (!dispute || (dispute.respondentId !== userId && dispute.openedById !== userId)) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+      if (dispute.respondentId !== userId) {
+        return res.status(403).json({ message: "Only the other party can respond to this claim" });
+      }
+      if (dispute.status !== "open") {
+        return res.status(409).json({ message: "This claim has already been answered" });
+      }
+
+      const parsed = disputeResponseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid response" });
+      }
+
+      const evidence = await processUploads(files);
+      if (!evidence) {
+        return res.status(400).json({ message: SUPPORTED_IMAGE_MESSAGE });
+      }
+      const updated = await storage.respondToDispute(
+        dispute.id,
+        parsed.data.response,
+        evidence.map((image) => image.url),
+      );
+      if (!updated) {
+        return res.status(409).json({ message: "This claim has already been answered" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error responding to dispute:", error);
+      res.status(500).json({ message: "Failed to respond to claim" });
+    } finally {
+      await discardUploads(files);
+    }
+  });
+
+  // Admin routes
+  app.get("/api/admin/disputes", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const statuses = disputeStatusListSchema.safeParse(
+        typeof req.query.status === "string" ? req.query.status.split(",") : ["open", "responded"],
+      );
+      if (!statuses.success) {
+        return res.status(400).json({ message: `Status must be one of: ${disputeStatuses.join(", ")}` });
+      }
+      const disputes = await storage.getDisputeQueue(statuses.data);
+      res.json(disputes);
+    } catch (error) {
+      console.error("Error fetching dispute queue:", error);
+      res.status(500).json({ message: "Failed to fetch disputes" });
+    }
+  });
+
+  app.post("/api/admin/disputes/:id/resolve", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const dispute = await storage.getRentalDispute(req.params.id);
+      if (!dispute) {
+        return res.status(404).json({ message: "Claim not found" });
+      }
+      const rental = await storage.getRentalRequest(dispute.rentalId);
+      if (!rental) {
+        return res.status(404).json({ message: "Rental request not found" });
+      }
+
+      const parsed = resolveDisputeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid resolution" });
+      }
+      const { outcome, faultUserId, depositRefund, resolutionNotes } = parsed.data;
+
+      if (faultUserId && !rentalPartyOf(rental, faultUserId)) {
+        return res.status(400).json({ message: "At-fault user must be a party to the rental" });
+      }
+      if (depositRefund != null && depositRefund > parseFloat(rental.securityDeposit || "0")) {
+        return res.status(400).json({ message: "Refund cannot exceed the security deposit" });
+      }
+
+      const resolved = await storage.resolveDispute(
+        dispute.id,
+        {
+          outcome,
+          faultUserId: faultUserId || null,
+          depositRefund: depositRefund != null ? depositRefund.toFixed(2) : null,
+          resolutionNotes,
+        },
+        req.user.claims.sub,
+      );
+      if (!resolved) {
+        return res.status(409).json({ message: "This claim has already been resolved" });
+      }
+      res.json(resolved);
+    } catch (error) {
+      console.error("Error resolving dispute:", error);
+      res.status(500).json({ message: "Failed to resolve claim" });
+    }
+  });
+
+  // Review routes
+  app.get("/api/rentals/:id/reviews", isAuthenticated, async (req: any, res) => {
+    try {
+      const rental = await storage.getRentalRequest(req.params.id);
+      if (!rental) {
+        return res.status(404).json({ message: "Rental request not found" });
+      }
+      if (!rentalPartyOf(rental, req.user.claims.sub)) {
+        return res.status(403).json({ message: "Not your rental request" });
+      }
+
+      const reviews = await storage.getReviewsForRental(req.params.id);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching rental reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.post("/api/rentals/:id/reviews", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const rental = await storage.getRentalRequest(req.params.id);
+      if (!rental) {
+        return res.status(404).json({ message: "Rental request not found" });
+      }
+
+      const role = rentalPartyOf(rental, userId);
+      if (!role) {
+        return res.status(403).json({ message: "Not your rental request" });
+      }
+      if (rental.status !== "completed") {
+        return res.status(409).json({ message: "Reviews can only be left once a rental is completed" });
+      }
+      if (await storage.getRentalReview(rental.id, userId)) {
+        return res.status(409).json({ message: "You have already reviewed this rental" });
+      }
+
+      const parsed = insertRentalReviewSchema.safeParse({
+        rentalId: rental.id,
+        reviewerId: userId,
+        revieweeId: role === "owner" ? rental.requesterId : rental.ownerId,
+        reviewerRole: role,
+        rating: req.body.rating,
+        // Only the borrower sees the item, so only they rate its condition.
+        itemConditionRating: role === "requester" ? req.body.itemConditionRating : null,
+        comment: req.body.comment,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid review" });
+      }
+
+      const review = await storage.createRentalReview(parsed.data);
+      res.status(201).json(review);
+    } catch (error) {
+      console.error("Error creating rental review:", error);
+      res.status(500).json({ message: "Failed to create review" });
+    }
+  });
+
+  app.get("/api/users/:id/reviews", async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const offset = parseInt(req.query.offset as string) || 0;
+      const reviews = await storage.getReviewsForUser(req.params.id, limit, offset);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching user reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  // User and follow routes
+  app.patch("/api/users/me", isAuthenticated, upload.single("avatar"), async (req: any, res) => {
+    const files: Express.Multer.File[] = req.file ? [req.file] : [];
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = updateProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid profile" });
+      }
+
+      const { username } = parsed.data;
+      if (username) {
+        const existing = await storage.getUserByUsername(username);
+        if (existing && existing.id !== userId) {
+          return res.status(409).json({ message: "That username is already taken" });
+        }
+      }
+
+      const avatar = req.file ? await processUpload(req.file) : undefined;
+      if (req.file && !avatar) {
+        return res.status(400).json({ message: SUPPORTED_IMAGE_MESSAGE });
+      }
+
+      await storage
+        .updateUserProfile(userId, {
+          ...parsed.data,
+          ...(avatar ? { profileImageUrl: avatar.url } : {}),
+        })
+        .catch(async (error) => {
+          if (avatar) await discardImages([avatar]);
+          throw error;
+        });
+      const user = await storage.getUserWithStats(userId);
+      res.json(user);
+    } catch (error: any) {
+      // Unique violation: someone claimed the username between the check and the update.
+      if (error?.code === "23505") {
+        return res.status(409).json({ message: "That username is already taken" });
+      }
+      console.error("Error updating profile:", error);
+      res.status(500).json({ message: "Failed to update profile" });
+    } finally {
+      await discardUploads(files);
+    }
+  });
+
+  app.get("/api/users/by-username/:username", async (req: any, res) => {
+    try {
+      const user = await storage.getUserByUsername(req.params.username);
+      const profile = user && await storage.getUserWithStats(user.id, req.user?.claims?.sub);
+      if (!profile) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicProfile(profile));
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  app.get("/api/users/:id", async (req: any, res) => {
+    try {
+      const user = await storage.getUserWithStats(req.params.id, req.user?.claims?.sub);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicProfile(user));
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+
+  app.post("/api/users/:id/follow", isAuthenticated, async (req: any, res) => {
+    try {
+      const followerId = req.user.claims.sub;
+      const followingId = req.params.id;
+      if (followerId === followingId) {
+        return res.status(400).json({ message: "You cannot follow yourself" });
+      }
+      if (!(await storage.getUser(followingId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (await storage.followUser(followerId, followingId)) {
+        notifyFollow(followerId, followingId).catch((error) => console.error("Error sending follow notification:", error));
+      }
+      const counts = await storage.getFollowCounts(followingId);
+      res.json({ isFollowing: true, ...counts });
+    } catch (error) {
+      console.error("Error following user:", error);
+      res.status(500).json({ message: "Failed to follow user" });
+    }
+  });
+
+  app.delete("/api/users/:id/follow", isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.unfollowUser(req.user.claims.sub, req.params.id);
+      const counts = await storage.getFollowCounts(req.params.id);
+      res.json({ isFollowing: false, ...counts });
+    } catch (error) {
+      console.error("Error unfollowing user:", error);
+      res.status(500).json({ message: "Failed to unfollow user" });
+    }
+  });
+
+  app.get("/api/mutes", isAuthenticated, async (req: any, res) => {
+    try {
+      const muted = await storage.getMutedUsers(req.user.claims.sub);
+      res.json(muted);
+    } catch (error) {
+      console.error("Error fetching muted users:", error);
+      res.status(500).json({ message: "Failed to fetch muted users" });
+    }
+  });
+
+  app.post("/api/users/:id/mute", isAuthenticated, async (req: any, res) => {
+    try {
+      const muterId = req.user.claims.sub;
+      if (muterId === req.params.id) {
+        return res.status(400).json({ message: "You cannot mute yourself" });
+      }
+      if (!(await storage.getUser(req.params.id))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await storage.muteUser(muterId, req.params.id);
+      res.json({ isMuted: true });
+    } catch (error) {
+      console.error("Error muting user:", error);
+      res.status(500).json({ message: "Failed to mute user" });
+    }
+  });
+
+  app.delete("/api/users/:id/mute", isAuthenticated, async (req: any, res) => {
+    try {
+      await storage.unmuteUser(req.user.claims.sub, req.params.id);
+      res.json({ isMuted: false });
+    } catch (error) {
+      console.error("Error unmuting user:", error);
+      res.status(500).json({ message: "Failed to unmute user" });
+    }
+  });
+
+  app.get("/api/users/:id/followers", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const followers = await storage.getFollowers(req.params.id, limit, offset);
+      res.json(followers);
+    } catch (error) {
+      console.error("Error fetching followers:", error);
+      res.status(500).json({ message: "Failed to fetch followers" });
+    }
+  });
+
+  app.get("/api/users/:id/following", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+      const following = await storage.getFollowing(req.params.id, limit, offset);
+      res.json(following);
+    } catch (error) {
+      console.error("Error fetching following:", error);
+      res.status(500).json({ message: "Failed to fetch following" });
+    }
+  });
+
+  // Badge routes
+  app.get("/api/badges/user/:userId", async (req, res) => {
+    try {
+      const badges = await storage.getUserBadges(req.params.userId);
+      res.json(badges);
+    } catch (error) {
+      console.error("Error fetching user badges:", error);
+      res.status(500).json({ message: "Failed to fetch user badges" });
+    }
+  });
+
+  // Notification routes
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const notifications = await storage.getNotifications(req.user.claims.sub, limit);
+      res.json(notifications.map(describeNotification));
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get("/api/notifications/unread-count", isAuthenticated, async (req: any, res) => {
+    try {
+      const count = await storage.getUnreadNotificationCount(req.user.claims.sub);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error counting notifications:", error);
+      res.status(500).json({ message: "Failed to count notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", isAuthenticated, async (req: any, res) => {
+    try {
+      const updated = await storage.markAllNotificationsRead(req.user.claims.sub);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to update notifications" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.user.claims.sub);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
+
+  // Message routes
+  app.get("/api/conversations", isAuthenticated, async (req: any, res) => {
+    try {
+      const limit = pageLimit(req.query.limit, 20);
+      const cursor = typeof req.query.cursor === "string" ? req.query.cursor : undefined;
+      const conversations = await storage.getConversations(req.user.claims.sub, limit + 1, cursor);
+      res.json(toCursorPage(conversations, limit));
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  // Opens the conversation with another member, creating it the first time.
+  app.post("/api/conversations", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const otherUserId = req.body?.userId;
+      if (typeof otherUserId !== "string") {
+        return res.status(400).json({ message: "userId is required" });
+      }
+      if (otherUserId === userId) {
+        return res.status(400).json({ message: "You cannot message yourself" });
+      }
+      if (!(await storage.getUser(otherUserId))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const conversation = await storage.getOrCreateConversation(userId, otherUserId);
+      res.json(await storage.getConversationSummary(conversation.id, userId));
+    } catch (error) {
+      console.error("Error opening conversation:", error);
+      res.status(500).json({ message: "Failed to open conversation" });
+    }
+  });
+
+  app.get("/api/conversations/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const summary = await storage.getConversationSummary(req.params.id, req.user.claims.sub);
+      if (!summary) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching conversation:", error);
+      res.status(500).json({ message: "Failed to fetch conversation" });
+    }
+  });
+
+  app.get("/api/conversations/:id/messages", isAuthenticated, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !isParticipant(conversation, req.user.claims.sub)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const limit = pageLimit(req.query.limit, 30);
+      const cursor = typeof req.query.cursor === "string" ? req.query.cursor : undefined;
+      const messages = await storage.getMessages(conversation.id, limit + 1, cursor);
+      res.json(toCursorPage(messages, limit));
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post("/api/conversations/:id/messages", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !isParticipant(conversation, userId)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const parsed = sendMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid message" });
+      }
+
+      const message = await storage.createMessage({
+        conversationId: conversation.id,
+        senderId: userId,
+        body: parsed.data.body,
+      });
+      res.status(201).json(message);
+    } catch (error) {
+      console.error("Error sending message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Read receipts: marks everything the other person sent so far as read.
+  app.post("/api/conversations/:id/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || !isParticipant(conversation, userId)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const updated = await storage.markConversationRead(conversation, userId);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error marking conversation read:", error);
+      res.status(500).json({ message: "Failed to update conversation" });
+    }
+  });
+
+  app.get("/api/messages/unread-count", isAuthenticated, async (req: any, res) => {
+    try {
+      const count = await storage.getUnreadMessageCount(req.user.claims.sub);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error counting messages:", error);
+      res.status(500).json({ message: "Failed to count messages" });
+    }
+  });
+
+  // Serve uploaded images
+  blobs.mount(app);
+
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
   return httpServer;
 }
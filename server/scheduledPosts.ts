@@ -0,0 +1,58 @@
+import { storage } from "./storage";
+import { indexPostText } from "./mentions";
+import { notifyPostPublished } from "./notifications";
+import { log } from "./vite";
+import type { Clock } from "./lateReturns";
+
+export interface ScheduledPostOptions {
+  clock?: Clock;
+}
+
+/**
+ * Publishes every draft scheduled at or before `clock()`. Safe to run
+ * repeatedly: publishing is compare-and-set, so a draft the author published
+ * or deleted in the meantime is skipped.
+ */
+export async function publishDuePosts(options: ScheduledPostOptions = {}): Promise<number> {
+  const now = (options.clock ?? (() => new Date()))();
+  let published = 0;
+
+  for (const draft of await storage.getDuePosts(now)) {
+    const post = await storage.publishPost(draft.id);
+    if (!post) continue;
+    published++;
+    // Drafts are left out of the tag index and mention no one until now.
+    indexPostText(post).catch((error) => console.error("Error indexing post text:", error));
+    notifyPostPublished(post).catch((error) => console.error("Error sending post published notification:", error));
+  }
+
+  return published;
+}
+
+/**
+ * Runs publishDuePosts now and then every `intervalMs`. A run is skipped if
+ * the previous one is still going. Returns a function that stops the timer.
+ */
+export function startScheduledPostJob(options: ScheduledPostOptions & { intervalMs?: number } = {}): () => void {
+  const { intervalMs = 60 * 1000, ...publishOptions } = options;
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const published = await publishDuePosts(publishOptions);
+      if (published) {
+        log(`${published} scheduled posts published`, "scheduled-posts");
+      }
+    } catch (error) {
+      console.error("Scheduled publishing failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+}
@@ -2,51 +2,270 @@ import {
   users,
   posts,
   likes,
+  follows,
+  mutes,
   comments,
   rentalRequests,
+  rentalBlockedDates,
+  rentalReviews,
+  rentalConditionReports,
+  rentalDisputes,
+  bookedRentalStatuses,
   badges,
   userBadges,
+  conversations,
+  messages,
+  postImages,
   type User,
   type UpsertUser,
+  type UpdateProfile,
   type Post,
   type InsertPost,
+  type UpdatePost,
+  type PostImage,
+  type PostImageInput,
+  type PostWithImages,
+  type UploadedImage,
   type PostWithUser,
   type UserWithStats,
+  type FollowListEntry,
+  type PublicUser,
+  type CommentWithUser,
+  type CommentThread,
+  type TrendingTag,
   type RentalRequest,
   type InsertRentalRequest,
+  type RentalStatus,
+  type DisputeStatus,
+  type RentalRequestWithDetails,
+  type RentalBlockedDate,
+  type InsertRentalBlockedDate,
+  type BusyRange,
+  type RentalReview,
+  type InsertRentalReview,
+  type RentalReviewWithReviewer,
+  type Reputation,
+  type RentalConditionReport,
+  type InsertRentalConditionReport,
+  type RentalDispute,
+  type InsertRentalDispute,
+  type RentalDisputeWithDetails,
+  notifications,
+  rentalWaitlistEntries,
+  calendarFeeds,
+  type CalendarFeed,
+  type RentalWaitlistEntry,
+  type InsertRentalWaitlistEntry,
+  type WaitlistStatus,
+  type Notification,
+  type InsertNotification,
+  mentions,
+  hashtags,
+  tags,
+  type Tag,
+  type Mention,
+  type InsertMention,
+  type InsertHashtag,
   type Comment,
   type InsertComment,
   type Badge,
+  type Conversation,
+  type ConversationSummary,
+  type Message,
+  type InsertMessage,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, sql, and, count } from "drizzle-orm";
+import { eq, desc, sql, and, or, count, gt, lt, lte, ne, inArray, notInArray, asc, isNull, getTableColumns, type SQL, type AnyColumn } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { quoteRental } from "./pricing";
+import { normalizeTags } from "@shared/richText";
+import { emitAppEvent } from "./events";
+
+function reputationFields(userId: AnyColumn) {
+  return {
+    averageRating: sql<number | null>`(select avg(${rentalReviews.rating})::float from ${rentalReviews} where ${rentalReviews.revieweeId} = ${userId})`,
+    reviewCount: sql<number>`(select count(*)::int from ${rentalReviews} where ${rentalReviews.revieweeId} = ${userId})`,
+    disputesLost: sql<number>`(select count(*)::int from ${rentalDisputes} where ${rentalDisputes.faultUserId} = ${userId} and ${rentalDisputes.status} = 'resolved')`,
+  };
+}
+
+function isFollowing(followerId: string, followingId: AnyColumn) {
+  return sql<boolean>`exists (select 1 from ${follows} where ${follows.followerId} = ${followerId} and ${follows.followingId} = ${followingId})`;
+}
+
+const { email: _email, isAdmin: _isAdmin, ...publicUserColumns } = getTableColumns(users);
+
+const postWithUserFields = {
+  ...getTableColumns(posts),
+  user: publicUserColumns,
+  userReputation: reputationFields(posts.userId),
+};
+
+// Removed posts stay in the table for rental history but are hidden everywhere else.
+const isLivePost = isNull(posts.deletedAt);
+// Drafts are left out of everything public: feeds, profiles, tags and counts.
+const isPublishedPost = eq(posts.status, "published");
+
+// Adds a post's impact to its author's totals, as it is published.
+function authorCredit(post: Post) {
+  return {
+    ecoPoints: sql`coalesce(${users.ecoPoints}, 0) + ${post.ecoPoints ?? 0}`,
+    waterSaved: sql`coalesce(${users.waterSaved}, 0) + ${post.waterSaved ?? "0"}::numeric`,
+    carbonReduced: sql`coalesce(${users.carbonReduced}, 0) + ${post.carbonReduced ?? "0"}::numeric`,
+    itemsReused: sql`coalesce(${users.itemsReused}, 0) + 1`,
+    updatedAt: new Date(),
+  };
+}
+
+const postCountFields = { id: posts.id, likesCount: posts.likesCount, commentsCount: posts.commentsCount };
+
+function publishPostCounts(post: { id: string; likesCount: number | null; commentsCount: number | null } | undefined) {
+  if (!post) return;
+  emitAppEvent("postCounts", { postId: post.id, likesCount: post.likesCount ?? 0, commentsCount: post.commentsCount ?? 0 });
+}
+
+// Each party to a rental sees the other's public profile only.
+const requesters = alias(users, "requesters");
+const { email: _requesterEmail, isAdmin: _requesterIsAdmin, ...publicRequesterColumns } = getTableColumns(requesters);
+const owners = alias(users, "owners");
+const { email: _ownerEmail, isAdmin: _ownerIsAdmin, ...publicOwnerColumns } = getTableColumns(owners);
+const disputeOpeners = alias(users, "dispute_openers");
+const disputeRespondents = alias(users, "dispute_respondents");
+
+function hasReviewed(reviewerId: AnyColumn) {
+  return sql<boolean>`exists (select 1 from ${rentalReviews} where ${rentalReviews.rentalId} = ${rentalRequests.id} and ${rentalReviews.reviewerId} = ${reviewerId})`;
+}
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUserProfile(id: string, profile: UpdateProfile & { profileImageUrl?: string }): Promise<User | undefined>;
   updateUserStats(userId: string, stats: { ecoPoints?: number; waterSaved?: string; carbonReduced?: string; itemsReused?: number }): Promise<void>;
-  getUserWithStats(id: string): Promise<UserWithStats | undefined>;
+  getUserWithStats(id: string, viewerId?: string): Promise<UserWithStats | undefined>;
 
   // Post operations
-  createPost(post: InsertPost): Promise<Post>;
-  getPosts(limit?: number, offset?: number): Promise<PostWithUser[]>;
+  createPost(post: InsertPost, images: (UploadedImage & { altText: string | null })[]): Promise<Post>;
+  getPosts(limit?: number, offset?: number, viewerId?: string): Promise<PostWithUser[]>;
+  getFollowingFeed(viewerId: string, limit?: number, offset?: number): Promise<PostWithUser[]>;
   getPost(id: string, userId?: string): Promise<PostWithUser | undefined>;
   getPostsByUser(userId: string): Promise<Post[]>;
+  getDrafts(userId: string): Promise<PostWithImages[]>;
+  publishPost(id: string): Promise<Post | undefined>;
+  getDuePosts(now: Date): Promise<Post[]>;
   getRentablePosts(limit?: number, offset?: number): Promise<PostWithUser[]>;
+  updatePost(id: string, changes: UpdatePost, gallery?: PostImageInput[]): Promise<Post | undefined>;
+  getPostImages(postId: string): Promise<PostImage[]>;
+  syncPostImages(): Promise<void>;
+  deletePost(post: Post): Promise<RentalRequest[] | undefined>;
 
   // Like operations
   toggleLike(userId: string, postId: string): Promise<boolean>;
   isPostLiked(userId: string, postId: string): Promise<boolean>;
 
+  // Follow operations
+  followUser(followerId: string, followingId: string): Promise<boolean>;
+  unfollowUser(followerId: string, followingId: string): Promise<boolean>;
+  getFollowers(userId: string, limit?: number, offset?: number): Promise<FollowListEntry[]>;
+  getFollowing(userId: string, limit?: number, offset?: number): Promise<FollowListEntry[]>;
+  getFollowCounts(userId: string): Promise<{ followersCount: number; followingCount: number }>;
+  muteUser(muterId: string, mutedId: string): Promise<void>;
+  unmuteUser(muterId: string, mutedId: string): Promise<void>;
+  getMutedUsers(muterId: string): Promise<PublicUser[]>;
+
   // Comment operations
   createComment(comment: InsertComment): Promise<Comment>;
-  getCommentsByPost(postId: string): Promise<Comment[]>;
+  getComment(id: string): Promise<Comment | undefined>;
+  getCommentsByPost(postId: string): Promise<CommentThread[]>;
+  updateCommentContent(id: string, content: string): Promise<Comment | undefined>;
+  deleteComment(id: string): Promise<boolean>;
+
+  // Mention and hashtag operations
+  getUsersByUsernames(usernames: string[]): Promise<User[]>;
+  addMentions(rows: InsertMention[]): Promise<Mention[]>;
+  addHashtags(rows: InsertHashtag[]): Promise<void>;
+  removePostHashtags(postId: string, keep: string[]): Promise<void>;
+  removeCommentIndex(commentId: string, keepTags: string[], keepMentionedUserIds: string[]): Promise<void>;
+
+  // Tag operations
+  syncTagIndex(): Promise<void>;
+  getTag(tag: string): Promise<Tag | undefined>;
+  getPostsByTag(tag: string, limit?: number, offset?: number, viewerId?: string): Promise<PostWithUser[]>;
+  getTagUsage(since: Date, previousSince: Date, limit: number): Promise<Omit<TrendingTag, "usesPerDay">[]>;
+  getPopularTags(limit: number): Promise<Tag[]>;
 
   // Rental operations
   createRentalRequest(request: InsertRentalRequest): Promise<RentalRequest>;
-  getRentalRequestsByUser(userId: string): Promise<RentalRequest[]>;
-  updateRentalRequestStatus(id: string, status: string): Promise<void>;
+  getRentalRequest(id: string): Promise<RentalRequest | undefined>;
+  getRentalRequestWithDetails(id: string): Promise<RentalRequestWithDetails | undefined>;
+  getRentalRequestsByUser(userId: string): Promise<RentalRequestWithDetails[]>;
+  getIncomingRentalRequests(ownerId: string, statuses?: RentalStatus[]): Promise<RentalRequestWithDetails[]>;
+  updateRentalRequestStatus(id: string, from: RentalStatus, to: RentalStatus): Promise<RentalRequest | undefined>;
+  getCalendarRentals(userId: string, statuses: RentalStatus[]): Promise<RentalRequestWithDetails[]>;
+  getRentalsEndingBefore(statuses: RentalStatus[], before: Date): Promise<RentalRequestWithDetails[]>;
+  chargeLateDays(id: string, chargedDays: number, lateDays: number, lateFees: string): Promise<RentalRequest | undefined>;
+
+  // Review operations
+  createRentalReview(review: InsertRentalReview): Promise<RentalReview>;
+  getRentalReview(rentalId: string, reviewerId: string): Promise<RentalReview | undefined>;
+  getReviewsForRental(rentalId: string): Promise<RentalReviewWithReviewer[]>;
+  getReviewsForUser(userId: string, limit?: number, offset?: number): Promise<RentalReviewWithReviewer[]>;
+  getUserReputation(userId: string): Promise<Reputation>;
+
+  // Condition report and dispute operations
+  createConditionReport(report: InsertRentalConditionReport): Promise<RentalConditionReport>;
+  getConditionReports(rentalId: string): Promise<RentalConditionReport[]>;
+  createRentalDispute(dispute: InsertRentalDispute): Promise<RentalDispute>;
+  getRentalDispute(id: string): Promise<RentalDispute | undefined>;
+  getRentalDisputes(rentalId: string): Promise<RentalDispute[]>;
+  getDisputeQueue(statuses: DisputeStatus[]): Promise<RentalDisputeWithDetails[]>;
+  hasOpenDispute(rentalId: string): Promise<boolean>;
+  respondToDispute(id: string, response: string, evidenceUrls: string[]): Promise<RentalDispute | undefined>;
+  resolveDispute(
+    id: string,
+    resolution: { outcome: string; faultUserId?: string | null; depositRefund?: string | null; resolutionNotes?: string | null },
+    resolvedById: string,
+  ): Promise<RentalDispute | undefined>;
+
+  // Availability operations
+  getBusyRanges(postId: string, from?: Date): Promise<BusyRange[]>;
+  hasBookingConflict(postId: string, startDate: Date, endDate: Date, excludeRentalId?: string): Promise<boolean>;
+  getBlockedDates(postId: string): Promise<RentalBlockedDate[]>;
+  createBlockedDate(block: InsertRentalBlockedDate): Promise<RentalBlockedDate>;
+  deleteBlockedDate(id: string, postId: string): Promise<boolean>;
+
+  // Waitlist operations
+  createWaitlistEntry(entry: InsertRentalWaitlistEntry): Promise<RentalWaitlistEntry>;
+  getWaitlistEntry(id: string): Promise<RentalWaitlistEntry | undefined>;
+  getWaitlist(postId: string, statuses: WaitlistStatus[], userId?: string): Promise<RentalWaitlistEntry[]>;
+  updateWaitlistEntryStatus(id: string, from: WaitlistStatus, to: WaitlistStatus): Promise<RentalWaitlistEntry | undefined>;
+  setWaitlistEntryRental(id: string, rentalId: string): Promise<void>;
+
+  // Calendar feed operations
+  getCalendarFeed(userId: string): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  setCalendarFeedToken(userId: string, token: string): Promise<CalendarFeed>;
+  deleteCalendarFeed(userId: string): Promise<void>;
+
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  upsertGroupedNotification(notification: InsertNotification & { groupKey: string; actorId: string }): Promise<Notification>;
+  getNotifications(userId: string, limit?: number): Promise<(Notification & { actor: PublicUser | null })[]>;
+  getNotification(id: string): Promise<(Notification & { actor: PublicUser | null }) | undefined>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+
+  // Message operations
+  getOrCreateConversation(userId: string, otherUserId: string): Promise<Conversation>;
+  getConversation(id: string): Promise<Conversation | undefined>;
+  getConversationSummary(id: string, userId: string): Promise<ConversationSummary | undefined>;
+  getConversations(userId: string, limit: number, cursor?: string): Promise<ConversationSummary[]>;
+  getMessages(conversationId: string, limit: number, cursor?: string): Promise<Message[]>;
+  createMessage(message: InsertMessage): Promise<Message>;
+  markConversationRead(conversation: Conversation, userId: string): Promise<number>;
+  getUnreadMessageCount(userId: string): Promise<number>;
 
   // Badge operations
   getUserBadges(userId: string): Promise<Badge[]>;
@@ -60,14 +279,30 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.username}) = ${username.toLowerCase()}`);
+    return user;
+  }
+
+  // Called on every login. Name and avatar follow the auth provider only until
+  // the member edits them; username, bio and location are never touched here.
   async upsertUser(userData: UpsertUser): Promise<User> {
+    const providerValue = (column: AnyColumn, value: string | null | undefined) =>
+      sql`case when ${users.profileEditedAt} is null then ${value ?? null} else ${column} end`;
+
     const [user] = await db
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
         target: users.id,
         set: {
-          ...userData,
+          email: userData.email,
+          firstName: providerValue(users.firstName, userData.firstName),
+          lastName: providerValue(users.lastName, userData.lastName),
+          profileImageUrl: providerValue(users.profileImageUrl, userData.profileImageUrl),
           updatedAt: new Date(),
         },
       })
@@ -75,6 +310,20 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserProfile(id: string, profile: UpdateProfile & { profileImageUrl?: string }): Promise<User | undefined> {
+    const editsProviderFields = ["firstName", "lastName", "profileImageUrl"].some((field) => field in profile);
+    const [user] = await db
+      .update(users)
+      .set({
+        ...profile,
+        ...(editsProviderFields ? { profileEditedAt: new Date() } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   async updateUserStats(userId: string, stats: { ecoPoints?: number; waterSaved?: string; carbonReduced?: string; itemsReused?: number }): Promise<void> {
     await db
       .update(users)
@@ -85,139 +334,164 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, userId));
   }
 
-  async getUserWithStats(id: string): Promise<UserWithStats | undefined> {
+  async getUserWithStats(id: string, viewerId?: string): Promise<UserWithStats | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     if (!user) return undefined;
 
     const [postsCount] = await db
       .select({ count: count() })
       .from(posts)
-      .where(eq(posts.userId, id));
+      .where(and(eq(posts.userId, id), isLivePost, isPublishedPost));
 
     const userBadges = await this.getUserBadges(id);
+    const reputation = await this.getUserReputation(id);
+    const { followersCount, followingCount } = await this.getFollowCounts(id);
+
+    let viewerFollows = false;
+    let viewerMuted = false;
+    if (viewerId && viewerId !== id) {
+      const [follow] = await db
+        .select({ id: follows.id })
+        .from(follows)
+        .where(and(eq(follows.followerId, viewerId), eq(follows.followingId, id)));
+      viewerFollows = !!follow;
+      const [mute] = await db
+        .select({ id: mutes.id })
+        .from(mutes)
+        .where(and(eq(mutes.muterId, viewerId), eq(mutes.mutedId, id)));
+      viewerMuted = !!mute;
+    }
 
     return {
       ...user,
       postsCount: postsCount.count,
-      followersCount: 0, // TODO: Implement following system
-      followingCount: 0, // TODO: Implement following system
+      followersCount,
+      followingCount,
       badges: userBadges,
+      reputation,
+      isFollowing: viewerFollows,
+      isMuted: viewerMuted,
     };
   }
 
-  async createPost(post: InsertPost): Promise<Post> {
-    const [newPost] = await db.insert(posts).values(post).returning();
-    
-    // Update user stats
-    const currentUser = await this.getUser(post.userId);
-    if (currentUser) {
-      const newEcoPoints = (currentUser.ecoPoints || 0) + (post.ecoPoints || 0);
-      const newWaterSaved = (parseFloat(currentUser.waterSaved || "0") + parseFloat(post.waterSaved || "0")).toString();
-      const newCarbonReduced = (parseFloat(currentUser.carbonReduced || "0") + parseFloat(post.carbonReduced || "0")).toString();
-      const newItemsReused = (currentUser.itemsReused || 0) + 1;
-
-      await this.updateUserStats(post.userId, {
-        ecoPoints: newEcoPoints,
-        waterSaved: newWaterSaved,
-        carbonReduced: newCarbonReduced,
-        itemsReused: newItemsReused,
-      });
-
-      // Check for new badges
-      await this.checkAndAwardBadges(post.userId);
+  // `images` in display order; post.imageUrl should be the first one's url.
+  // Drafts are credited to the author's totals when they are published instead.
+  async createPost(post: InsertPost, images: (UploadedImage & { altText: string | null })[]): Promise<Post> {
+    const newPost = await db.transaction(async (tx) => {
+      const [newPost] = await tx.insert(posts).values(post).returning();
+      const gallery = images.length > 0 ? images : [{ url: newPost.imageUrl, altText: null }];
+      await tx
+        .insert(postImages)
+        .values(gallery.map((image, position) => ({ ...image, postId: newPost.id, position })));
+      if (newPost.status === "published") {
+        await tx.update(users).set(authorCredit(newPost)).where(eq(users.id, newPost.userId));
+      }
+      return newPost;
+    });
+
+    if (newPost.status === "published") {
+      await this.checkAndAwardBadges(newPost.userId);
     }
 
     return newPost;
   }
 
-  async getPosts(limit = 20, offset = 0): Promise<PostWithUser[]> {
-    const result = await db
+  // Publishes a draft as of now, crediting its author. Resolves to undefined if
+  // it is not a draft (any more), so the scheduler and the author can't both
+  // publish it.
+  async publishPost(id: string): Promise<Post | undefined> {
+    const published = await db.transaction(async (tx) => {
+      const [published] = await tx
+        .update(posts)
+        .set({ status: "published", publishAt: null, createdAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(posts.id, id), eq(posts.status, "draft"), isLivePost))
+        .returning();
+      if (!published) return undefined;
+
+      await tx.update(users).set(authorCredit(published)).where(eq(users.id, published.userId));
+      return published;
+    });
+
+    if (published) {
+      await this.checkAndAwardBadges(published.userId);
+    }
+    return published;
+  }
+
+  // Scheduled drafts whose time has come, oldest first.
+  async getDuePosts(now: Date): Promise<Post[]> {
+    return await db
+      .select()
+      .from(posts)
+      .where(and(eq(posts.status, "draft"), lte(posts.publishAt, now), isLivePost))
+      .orderBy(asc(posts.publishAt));
+  }
+
+  // The author's unpublished posts, most recently edited first.
+  async getDrafts(userId: string): Promise<PostWithImages[]> {
+    const drafts = await db
+      .select()
+      .from(posts)
+      .where(and(eq(posts.userId, userId), eq(posts.status, "draft"), isLivePost))
+      .orderBy(desc(posts.updatedAt));
+    return await this.withImages(drafts);
+  }
+
+  // Newest first. With a viewer, posts by users they muted are left out and
+  // each post says whether the viewer follows its author.
+  private async getFeed(where: SQL | undefined, viewerId: string | undefined, limit: number, offset: number): Promise<PostWithUser[]> {
+    const conditions = [where, isLivePost, isPublishedPost];
+    if (viewerId) {
+      conditions.push(
+        sql`not exists (select 1 from ${mutes} where ${mutes.muterId} = ${viewerId} and ${mutes.mutedId} = ${posts.userId})`,
+      );
+    }
+
+    const rows = await db
       .select({
-        id: posts.id,
-        userId: posts.userId,
-        imageUrl: posts.imageUrl,
-        caption: posts.caption,
-        tags: posts.tags,
-        thriftStore: posts.thriftStore,
-        pricePaid: posts.pricePaid,
-        originalBrand: posts.originalBrand,
-        availableForRent: posts.availableForRent,
-        rentPrice: posts.rentPrice,
-        size: posts.size,
-        waterSaved: posts.waterSaved,
-        carbonReduced: posts.carbonReduced,
-        ecoPoints: posts.ecoPoints,
-        likesCount: posts.likesCount,
-        commentsCount: posts.commentsCount,
-        createdAt: posts.createdAt,
-        updatedAt: posts.updatedAt,
-        user: {
-          id: users.id,
-          email: users.email,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          profileImageUrl: users.profileImageUrl,
-          bio: users.bio,
-          location: users.location,
-          username: users.username,
-          ecoPoints: users.ecoPoints,
-          waterSaved: users.waterSaved,
-          carbonReduced: users.carbonReduced,
-          itemsReused: users.itemsReused,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
-        },
+        ...postWithUserFields,
+        isFollowingAuthor: viewerId ? isFollowing(viewerId, posts.userId) : sql<boolean>`false`,
       })
       .from(posts)
       .innerJoin(users, eq(posts.userId, users.id))
+      .where(and(...conditions))
       .orderBy(desc(posts.createdAt))
       .limit(limit)
       .offset(offset);
+    return await this.withImages(rows);
+  }
 
-    return result;
+  private async withImages<T extends { id: string }>(rows: T[]): Promise<(T & { images: PostImage[] })[]> {
+    if (rows.length === 0) return [];
+    const images = await db
+      .select()
+      .from(postImages)
+      .where(inArray(postImages.postId, rows.map((row) => row.id)))
+      .orderBy(asc(postImages.position));
+    return rows.map((row) => ({ ...row, images: images.filter((image) => image.postId === row.id) }));
+  }
+
+  async getPosts(limit = 20, offset = 0, viewerId?: string): Promise<PostWithUser[]> {
+    return await this.getFeed(undefined, viewerId, limit, offset);
   }
 
+  // The viewer's own posts plus posts from everyone they follow.
+  async getFollowingFeed(viewerId: string, limit = 20, offset = 0): Promise<PostWithUser[]> {
+    return await this.getFeed(
+      or(eq(posts.userId, viewerId), isFollowing(viewerId, posts.userId)),
+      viewerId,
+      limit,
+      offset,
+    );
+  }
+
+  // Drafts are only found when `userId` is their author.
   async getPost(id: string, userId?: string): Promise<PostWithUser | undefined> {
     const result = await db
-      .select({
-        id: posts.id,
-        userId: posts.userId,
-        imageUrl: posts.imageUrl,
-        caption: posts.caption,
-        tags: posts.tags,
-        thriftStore: posts.thriftStore,
-        pricePaid: posts.pricePaid,
-        originalBrand: posts.originalBrand,
-        availableForRent: posts.availableForRent,
-        rentPrice: posts.rentPrice,
-        size: posts.size,
-        waterSaved: posts.waterSaved,
-        carbonReduced: posts.carbonReduced,
-        ecoPoints: posts.ecoPoints,
-        likesCount: posts.likesCount,
-        commentsCount: posts.commentsCount,
-        createdAt: posts.createdAt,
-        updatedAt: posts.updatedAt,
-        user: {
-          id: users.id,
-          email: users.email,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          profileImageUrl: users.profileImageUrl,
-          bio: users.bio,
-          location: users.location,
-          username: users.username,
-          ecoPoints: users.ecoPoints,
-          waterSaved: users.waterSaved,
-          carbonReduced: users.carbonReduced,
-          itemsReused: users.itemsReused,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
-        },
-      })
+      .select(postWithUserFields)
       .from(posts)
       .innerJoin(users, eq(posts.userId, users.id))
-      .where(eq(posts.id, id));
+      .where(and(eq(posts.id, id), isLivePost, userId ? or(isPublishedPost, eq(posts.userId, userId)) : isPublishedPost));
 
     if (result.length === 0) return undefined;
 
@@ -228,62 +502,140 @@ export class DatabaseStorage implements IStorage {
       isLiked = await this.isPostLiked(userId, id);
     }
 
-    return { ...post, isLiked };
+    return { ...post, isLiked, images: await this.getPostImages(id) };
+  }
+
+  async getPostImages(postId: string): Promise<PostImage[]> {
+    return await db
+      .select()
+      .from(postImages)
+      .where(eq(postImages.postId, postId))
+      .orderBy(asc(postImages.position));
   }
 
   async getPostsByUser(userId: string): Promise<Post[]> {
     return await db
       .select()
       .from(posts)
-      .where(eq(posts.userId, userId))
+      .where(and(eq(posts.userId, userId), isLivePost, isPublishedPost))
       .orderBy(desc(posts.createdAt));
   }
 
   async getRentablePosts(limit = 20, offset = 0): Promise<PostWithUser[]> {
     const result = await db
-      .select({
-        id: posts.id,
-        userId: posts.userId,
-        imageUrl: posts.imageUrl,
-        caption: posts.caption,
-        tags: posts.tags,
-        thriftStore: posts.thriftStore,
-        pricePaid: posts.pricePaid,
-        originalBrand: posts.originalBrand,
-        availableForRent: posts.availableForRent,
-        rentPrice: posts.rentPrice,
-        size: posts.size,
-        waterSaved: posts.waterSaved,
-        carbonReduced: posts.carbonReduced,
-        ecoPoints: posts.ecoPoints,
-        likesCount: posts.likesCount,
-        commentsCount: posts.commentsCount,
-        createdAt: posts.createdAt,
-        updatedAt: posts.updatedAt,
-        user: {
-          id: users.id,
-          email: users.email,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          profileImageUrl: users.profileImageUrl,
-          bio: users.bio,
-          location: users.location,
-          username: users.username,
-          ecoPoints: users.ecoPoints,
-          waterSaved: users.waterSaved,
-          carbonReduced: users.carbonReduced,
-          itemsReused: users.itemsReused,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
-        },
-      })
+      .select(postWithUserFields)
       .from(posts)
       .innerJoin(users, eq(posts.userId, users.id))
-      .where(eq(posts.availableForRent, true))
+      .where(and(eq(posts.availableForRent, true), isLivePost, isPublishedPost))
       .orderBy(desc(posts.createdAt))
       .limit(limit)
       .offset(offset);
 
+    return await this.withImages(result);
+  }
+
+  // With a gallery, the post's photos become exactly that list, in that order,
+  // and the first one becomes the cover. Ids the post does not have are ignored.
+  async updatePost(id: string, changes: UpdatePost, gallery?: PostImageInput[]): Promise<Post | undefined> {
+    return await db.transaction(async (tx) => {
+      let imageUrl: string | undefined;
+      if (gallery) {
+        const existing = await tx.select().from(postImages).where(eq(postImages.postId, id));
+        const byId = new Map(existing.map((image) => [image.id, image]));
+        const images = gallery.filter((image) => !("id" in image) || byId.has(image.id));
+        const keptIds = images.flatMap((image) => ("id" in image ? [image.id] : []));
+        if (images.length > 0) {
+          await tx
+            .delete(postImages)
+            .where(and(eq(postImages.postId, id), keptIds.length > 0 ? notInArray(postImages.id, keptIds) : undefined));
+          for (let position = 0; position < images.length; position++) {
+            const image = images[position];
+            if ("id" in image) {
+              await tx
+                .update(postImages)
+                .set({ position, altText: image.altText })
+                .where(eq(postImages.id, image.id));
+            } else {
+              await tx.insert(postImages).values({ ...image, postId: id, position });
+            }
+          }
+          const cover = images[0];
+          imageUrl = "id" in cover ? byId.get(cover.id)!.url : cover.url;
+        }
+      }
+
+      const [updated] = await tx
+        .update(posts)
+        .set({ ...changes, ...(imageUrl ? { imageUrl } : {}), updatedAt: new Date() })
+        .where(and(eq(posts.id, id), isLivePost))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Removes a post: its likes, comments, mentions and tags go, pending rental
+  // requests are cancelled (and returned so the renters can be told), and the
+  // impact it added to the owner's totals is taken back off. Returns undefined,
+  // changing nothing, while a rental of the item is booked or in progress.
+  async deletePost(post: Post): Promise<RentalRequest[] | undefined> {
+    const result = await db.transaction(async (tx) => {
+      // Locking the open requests stops them changing status until we are done.
+      const open = await tx
+        .select({ status: rentalRequests.status })
+        .from(rentalRequests)
+        .where(and(eq(rentalRequests.postId, post.id), inArray(rentalRequests.status, ["pending", ...bookedRentalStatuses])))
+        .for("update");
+      if (open.some((rental) => rental.status !== "pending")) return undefined;
+
+      const [removed] = await tx
+        .update(posts)
+        .set({ deletedAt: new Date(), availableForRent: false, likesCount: 0, commentsCount: 0, updatedAt: new Date() })
+        .where(and(eq(posts.id, post.id), isLivePost))
+        .returning();
+      if (!removed) return [];
+
+      const cancelled = await tx
+        .update(rentalRequests)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(and(eq(rentalRequests.postId, post.id), eq(rentalRequests.status, "pending")))
+        .returning();
+      await tx.delete(rentalBlockedDates).where(eq(rentalBlockedDates.postId, post.id));
+      await tx
+        .update(rentalWaitlistEntries)
+        .set({ status: "left" })
+        .where(and(eq(rentalWaitlistEntries.postId, post.id), inArray(rentalWaitlistEntries.status, ["waiting", "notified"])));
+
+      // Notifications about rentals stay with the rental; the rest were about the post itself.
+      await tx.delete(notifications).where(and(eq(notifications.postId, post.id), isNull(notifications.rentalId)));
+      await tx.delete(mentions).where(eq(mentions.postId, post.id));
+      const removedTags = await tx.delete(hashtags).where(eq(hashtags.postId, post.id)).returning();
+      const postTags = removedTags.filter((row) => !row.commentId).map((row) => row.tag);
+      if (postTags.length > 0) {
+        await tx
+          .update(tags)
+          .set({ postsCount: sql`greatest(${tags.postsCount} - 1, 0)` })
+          .where(inArray(tags.tag, postTags));
+      }
+      await tx.delete(comments).where(eq(comments.postId, post.id));
+      await tx.delete(likes).where(eq(likes.postId, post.id));
+
+      // A draft was never credited.
+      if (removed.status !== "published") return cancelled;
+      await tx
+        .update(users)
+        .set({
+          ecoPoints: sql`greatest(coalesce(${users.ecoPoints}, 0) - ${removed.ecoPoints ?? 0}, 0)`,
+          waterSaved: sql`greatest(coalesce(${users.waterSaved}, 0) - ${removed.waterSaved ?? "0"}::numeric, 0)`,
+          carbonReduced: sql`greatest(coalesce(${users.carbonReduced}, 0) - ${removed.carbonReduced ?? "0"}::numeric, 0)`,
+          itemsReused: sql`greatest(coalesce(${users.itemsReused}, 0) - 1, 0)`,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, post.userId));
+
+      return cancelled;
+    });
+
+    result?.forEach((rental) => emitAppEvent("rental", rental));
     return result;
   }
 
@@ -299,20 +651,24 @@ export class DatabaseStorage implements IStorage {
         .delete(likes)
         .where(and(eq(likes.userId, userId), eq(likes.postId, postId)));
       
-      await db
+      const [counts] = await db
         .update(posts)
         .set({ likesCount: sql`${posts.likesCount} - 1` })
-        .where(eq(posts.id, postId));
+        .where(eq(posts.id, postId))
+        .returning(postCountFields);
+      publishPostCounts(counts);
       
       return false;
     } else {
       // Like
       await db.insert(likes).values({ userId, postId });
       
-      await db
+      const [counts] = await db
         .update(posts)
         .set({ likesCount: sql`${posts.likesCount} + 1` })
-        .where(eq(posts.id, postId));
+        .where(eq(posts.id, postId))
+        .returning(postCountFields);
+      publishPostCounts(counts);
       
       return true;
     }
@@ -327,43 +683,905 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  // Returns false when the follow already existed.
+  async followUser(followerId: string, followingId: string): Promise<boolean> {
+    const created = await db
+      .insert(follows)
+      .values({ followerId, followingId })
+      .onConflictDoNothing()
+      .returning({ id: follows.id });
+    return created.length > 0;
+  }
+
+  async unfollowUser(followerId: string, followingId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(follows)
+      .where(and(eq(follows.followerId, followerId), eq(follows.followingId, followingId)))
+      .returning({ id: follows.id });
+    return deleted.length > 0;
+  }
+
+  async getFollowers(userId: string, limit = 20, offset = 0): Promise<FollowListEntry[]> {
+    return await db
+      .select({ ...publicUserColumns, followedAt: follows.createdAt })
+      .from(follows)
+      .innerJoin(users, eq(follows.followerId, users.id))
+      .where(eq(follows.followingId, userId))
+      .orderBy(desc(follows.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getFollowing(userId: string, limit = 20, offset = 0): Promise<FollowListEntry[]> {
+    return await db
+      .select({ ...publicUserColumns, followedAt: follows.createdAt })
+      .from(follows)
+      .innerJoin(users, eq(follows.followingId, users.id))
+      .where(eq(follows.followerId, userId))
+      .orderBy(desc(follows.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getFollowCounts(userId: string): Promise<{ followersCount: number; followingCount: number }> {
+    const [counts] = await db
+      .select({
+        followersCount: sql<number>`(select count(*)::int from ${follows} where ${follows.followingId} = ${userId})`,
+        followingCount: sql<number>`(select count(*)::int from ${follows} where ${follows.followerId} = ${userId})`,
+      })
+      .from(users)
+      .where(eq(users.id, userId));
+    return counts ?? { followersCount: 0, followingCount: 0 };
+  }
+
+  async muteUser(muterId: string, mutedId: string): Promise<void> {
+    await db.insert(mutes).values({ muterId, mutedId }).onConflictDoNothing();
+  }
+
+  async unmuteUser(muterId: string, mutedId: string): Promise<void> {
+    await db.delete(mutes).where(and(eq(mutes.muterId, muterId), eq(mutes.mutedId, mutedId)));
+  }
+
+  async getMutedUsers(muterId: string): Promise<PublicUser[]> {
+    return await db
+      .select(publicUserColumns)
+      .from(mutes)
+      .innerJoin(users, eq(mutes.mutedId, users.id))
+      .where(eq(mutes.muterId, muterId))
+      .orderBy(desc(mutes.createdAt));
+  }
+
   async createComment(comment: InsertComment): Promise<Comment> {
     const [newComment] = await db.insert(comments).values(comment).returning();
     
-    await db
+    const [counts] = await db
       .update(posts)
       .set({ commentsCount: sql`${posts.commentsCount} + 1` })
-      .where(eq(posts.id, comment.postId));
+      .where(eq(posts.id, comment.postId))
+      .returning(postCountFields);
+    publishPostCounts(counts);
     
     return newComment;
   }
 
-  async getCommentsByPost(postId: string): Promise<Comment[]> {
-    return await db
-      .select()
+  async getComment(id: string): Promise<Comment | undefined> {
+    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    return comment;
+  }
+
+  async getCommentsByPost(postId: string): Promise<CommentThread[]> {
+    const rows: CommentWithUser[] = await db
+      .select({ ...getTableColumns(comments), user: publicUserColumns })
       .from(comments)
+      .innerJoin(users, eq(comments.userId, users.id))
       .where(eq(comments.postId, postId))
-      .orderBy(desc(comments.createdAt));
+      .orderBy(asc(comments.createdAt));
+
+    const hideDeleted = (comment: CommentWithUser) =>
+      comment.deletedAt ? { ...comment, content: "" } : comment;
+
+    const threads = new Map<string, CommentThread>();
+    for (const row of rows) {
+      if (!row.parentId) threads.set(row.id, { ...hideDeleted(row), replies: [] });
+    }
+    for (const row of rows) {
+      if (row.parentId && !row.deletedAt) threads.get(row.parentId)?.replies.push(row);
+    }
+
+    // Newest threads first; a deleted comment stays only as the head of a live thread.
+    return Array.from(threads.values())
+      .filter((thread) => !thread.deletedAt || thread.replies.length > 0)
+      .reverse();
+  }
+
+  async updateCommentContent(id: string, content: string): Promise<Comment | undefined> {
+    const [comment] = await db
+      .update(comments)
+      .set({ content, editedAt: new Date() })
+      .where(and(eq(comments.id, id), isNull(comments.deletedAt)))
+      .returning();
+    return comment;
+  }
+
+  async deleteComment(id: string): Promise<boolean> {
+    const [deleted] = await db
+      .update(comments)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(comments.id, id), isNull(comments.deletedAt)))
+      .returning();
+    if (!deleted) return false;
+    await this.removeCommentIndex(id, [], []);
+
+    const [counts] = await db
+      .update(posts)
+      .set({ commentsCount: sql`greatest(${posts.commentsCount} - 1, 0)` })
+      .where(eq(posts.id, deleted.postId))
+      .returning(postCountFields);
+    publishPostCounts(counts);
+    return true;
+  }
+
+  async getUsersByUsernames(usernames: string[]): Promise<User[]> {
+    if (usernames.length === 0) return [];
+    return await db
+      .select()
+      .from(users)
+      .where(inArray(sql`lower(${users.username})`, usernames.map((name) => name.toLowerCase())));
+  }
+
+  // Returns only the mentions that were new, so callers notify each person once.
+  async addMentions(rows: InsertMention[]): Promise<Mention[]> {
+    if (rows.length === 0) return [];
+    return await db.insert(mentions).values(rows).onConflictDoNothing().returning();
+  }
+
+  // Post-level rows (no commentId) also bump the tag's post count, once per post.
+  async addHashtags(rows: InsertHashtag[]): Promise<void> {
+    if (rows.length === 0) return;
+    await db.transaction(async (tx) => {
+      const added = await tx.insert(hashtags).values(rows).onConflictDoNothing().returning();
+      const postTags = added.filter((row) => !row.commentId);
+      if (postTags.length === 0) return;
+
+      await tx
+        .insert(tags)
+        .values(postTags.map((row) => ({ tag: row.tag, postsCount: 1 })))
+        .onConflictDoUpdate({
+          target: tags.tag,
+          set: { postsCount: sql`${tags.postsCount} + 1`, lastUsedAt: new Date() },
+        });
+    });
+  }
+
+  // Gives posts from before galleries existed a one-photo gallery of their cover.
+  // Safe to run on every start.
+  async syncPostImages(): Promise<void> {
+    await db.execute(sql`
+      insert into ${postImages} (post_id, url, position, created_at)
+      select ${posts.id}, ${posts.imageUrl}, 0, ${posts.createdAt}
+      from ${posts}
+      where not exists (select 1 from ${postImages} where ${postImages.postId} = ${posts.id})
+    `);
+  }
+
+  // Drops the post-level tags an edited post no longer has, taking them off the tag counts.
+  async removePostHashtags(postId: string, keep: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(hashtags)
+        .where(
+          and(
+            eq(hashtags.postId, postId),
+            isNull(hashtags.commentId),
+            keep.length > 0 ? notInArray(hashtags.tag, keep) : undefined,
+          ),
+        )
+        .returning();
+      if (removed.length === 0) return;
+
+      await tx
+        .update(tags)
+        .set({ postsCount: sql`greatest(${tags.postsCount} - 1, 0)` })
+        .where(inArray(tags.tag, removed.map((row) => row.tag)));
+    });
+  }
+
+  // Drops the hashtags and mentions a comment no longer has, so trending tags
+  // and mention lookups only count text that still exists.
+  async removeCommentIndex(commentId: string, keepTags: string[], keepMentionedUserIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(hashtags)
+        .where(
+          and(
+            eq(hashtags.commentId, commentId),
+            keepTags.length > 0 ? notInArray(hashtags.tag, keepTags) : undefined,
+          ),
+        );
+      await tx
+        .delete(mentions)
+        .where(
+          and(
+            eq(mentions.commentId, commentId),
+            keepMentionedUserIds.length > 0 ? notInArray(mentions.mentionedUserId, keepMentionedUserIds) : undefined,
+          ),
+        );
+    });
+  }
+
+  // Backfills hashtag rows for posts created before the index existed and
+  // recounts every tag. Safe to run on every start.
+  async syncTagIndex(): Promise<void> {
+    const allPosts = await db
+      .select({ id: posts.id, tags: posts.tags, createdAt: posts.createdAt })
+      .from(posts)
+      .where(and(isLivePost, isPublishedPost));
+    const rows = allPosts.flatMap((post) =>
+      normalizeTags(post.tags ?? []).map((tag) => ({ tag, postId: post.id, commentId: null, createdAt: post.createdAt })),
+    );
+    for (let i = 0; i < rows.length; i += 500) {
+      await db.insert(hashtags).values(rows.slice(i, i + 500)).onConflictDoNothing();
+    }
+
+    await db
+      .update(tags)
+      .set({ postsCount: 0 })
+      .where(sql`not exists (select 1 from ${hashtags} where ${hashtags.tag} = ${tags.tag} and ${hashtags.commentId} is null)`);
+    await db.execute(sql`
+      insert into ${tags} (tag, posts_count, last_used_at)
+      select ${hashtags.tag}, count(*), max(${hashtags.createdAt})
+      from ${hashtags}
+      where ${hashtags.commentId} is null
+      group by ${hashtags.tag}
+      on conflict (tag) do update
+      set posts_count = excluded.posts_count, last_used_at = excluded.last_used_at
+    `);
+  }
+
+  async getTag(tag: string): Promise<Tag | undefined> {
+    const [row] = await db.select().from(tags).where(eq(tags.tag, tag));
+    return row;
+  }
+
+  async getPostsByTag(tag: string, limit = 20, offset = 0, viewerId?: string): Promise<PostWithUser[]> {
+    return await this.getFeed(
+      sql`exists (select 1 from ${hashtags} where ${hashtags.postId} = ${posts.id} and ${hashtags.tag} = ${tag} and ${hashtags.commentId} is null)`,
+      viewerId,
+      limit,
+      offset,
+    );
+  }
+
+  // Tag uses (posts and comments) since `since`, and between `previousSince`
+  // and `since`, for tags used at least once in the recent window.
+  async getTagUsage(since: Date, previousSince: Date, limit: number): Promise<Omit<TrendingTag, "usesPerDay">[]> {
+    const recentUses = sql<number>`count(*) filter (where ${hashtags.createdAt} >= ${since})`.mapWith(Number);
+    const previousUses = sql<number>`count(*) filter (where ${hashtags.createdAt} < ${since})`.mapWith(Number);
+
+    return await db
+      .select({
+        tag: hashtags.tag,
+        postsCount: sql<number>`coalesce(max(${tags.postsCount}), 0)`.mapWith(Number),
+        recentUses,
+        previousUses,
+      })
+      .from(hashtags)
+      .leftJoin(tags, eq(tags.tag, hashtags.tag))
+      .where(gt(hashtags.createdAt, previousSince))
+      .groupBy(hashtags.tag)
+      .having(sql`${recentUses} > 0`)
+      .orderBy(desc(recentUses), desc(sql`${recentUses} - ${previousUses}`))
+      .limit(limit);
+  }
+
+  async getPopularTags(limit: number): Promise<Tag[]> {
+    return await db
+      .select()
+      .from(tags)
+      .where(gt(tags.postsCount, 0))
+      .orderBy(desc(tags.postsCount), desc(tags.lastUsedAt))
+      .limit(limit);
   }
 
   async createRentalRequest(request: InsertRentalRequest): Promise<RentalRequest> {
-    const [newRequest] = await db.insert(rentalRequests).values(request).returning();
+    const [post] = await db.select().from(posts).where(eq(posts.id, request.postId));
+    const quote = quoteRental(post, request.startDate, request.endDate);
+
+    const [newRequest] = await db
+      .insert(rentalRequests)
+      .values({
+        ...request,
+        rentalFee: quote.rentalFee,
+        cleaningFee: quote.cleaningFee,
+        securityDeposit: quote.securityDeposit,
+        totalPrice: quote.totalPrice,
+      })
+      .returning();
+    emitAppEvent("rental", newRequest);
     return newRequest;
   }
 
-  async getRentalRequestsByUser(userId: string): Promise<RentalRequest[]> {
+  async getRentalRequest(id: string): Promise<RentalRequest | undefined> {
+    const [request] = await db.select().from(rentalRequests).where(eq(rentalRequests.id, id));
+    return request;
+  }
+
+  private async getRentalRequestsWithDetails(where: SQL | undefined): Promise<RentalRequestWithDetails[]> {
     return await db
-      .select()
+      .select({
+        ...getTableColumns(rentalRequests),
+        requester: publicRequesterColumns,
+        owner: publicOwnerColumns,
+        post: getTableColumns(posts),
+        ownerReviewed: hasReviewed(rentalRequests.ownerId),
+        requesterReviewed: hasReviewed(rentalRequests.requesterId),
+      })
       .from(rentalRequests)
-      .where(eq(rentalRequests.requesterId, userId))
+      .innerJoin(requesters, eq(rentalRequests.requesterId, requesters.id))
+      .innerJoin(owners, eq(rentalRequests.ownerId, owners.id))
+      .innerJoin(posts, eq(rentalRequests.postId, posts.id))
+      .where(where)
       .orderBy(desc(rentalRequests.createdAt));
   }
 
-  async updateRentalRequestStatus(id: string, status: string): Promise<void> {
-    await db
+  async getRentalRequestWithDetails(id: string): Promise<RentalRequestWithDetails | undefined> {
+    const [request] = await this.getRentalRequestsWithDetails(eq(rentalRequests.id, id));
+    return request;
+  }
+
+  async getRentalRequestsByUser(userId: string): Promise<RentalRequestWithDetails[]> {
+    return await this.getRentalRequestsWithDetails(eq(rentalRequests.requesterId, userId));
+  }
+
+  async getIncomingRentalRequests(ownerId: string, statuses?: RentalStatus[]): Promise<RentalRequestWithDetails[]> {
+    const conditions = [eq(rentalRequests.ownerId, ownerId)];
+    if (statuses && statuses.length > 0) {
+      conditions.push(inArray(rentalRequests.status, statuses));
+    }
+    return await this.getRentalRequestsWithDetails(and(...conditions));
+  }
+
+  // Only applies the change if the request is still in the `from` status, so two
+  // concurrent transitions cannot both succeed. Returns undefined when it lost.
+  async updateRentalRequestStatus(id: string, from: RentalStatus, to: RentalStatus): Promise<RentalRequest | undefined> {
+    const [updated] = await db
+      .update(rentalRequests)
+      .set({ status: to, updatedAt: new Date() })
+      .where(and(eq(rentalRequests.id, id), eq(rentalRequests.status, from)))
+      .returning();
+    if (updated) emitAppEvent("rental", updated);
+    return updated;
+  }
+
+  async getCalendarRentals(userId: string, statuses: RentalStatus[]): Promise<RentalRequestWithDetails[]> {
+    return await this.getRentalRequestsWithDetails(
+      and(
+        or(eq(rentalRequests.requesterId, userId), eq(rentalRequests.ownerId, userId)),
+        inArray(rentalRequests.status, statuses),
+      ),
+    );
+  }
+
+  async getRentalsEndingBefore(statuses: RentalStatus[], before: Date): Promise<RentalRequestWithDetails[]> {
+    return await this.getRentalRequestsWithDetails(
+      and(inArray(rentalRequests.status, statuses), lt(rentalRequests.endDate, before)),
+    );
+  }
+
+  // Compare-and-set on lateDaysCharged, so a day is only ever charged once
+  // even if two checks run at the same time.
+  async chargeLateDays(id: string, chargedDays: number, lateDays: number, lateFees: string): Promise<RentalRequest | undefined> {
+    const [updated] = await db
       .update(rentalRequests)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(rentalRequests.id, id));
+      .set({ lateDaysCharged: lateDays, lateFees, updatedAt: new Date() })
+      .where(and(eq(rentalRequests.id, id), eq(rentalRequests.lateDaysCharged, chargedDays)))
+      .returning();
+    return updated;
+  }
+
+  async createRentalReview(review: InsertRentalReview): Promise<RentalReview> {
+    const [newReview] = await db.insert(rentalReviews).values(review).returning();
+    return newReview;
+  }
+
+  async getRentalReview(rentalId: string, reviewerId: string): Promise<RentalReview | undefined> {
+    const [review] = await db
+      .select()
+      .from(rentalReviews)
+      .where(and(eq(rentalReviews.rentalId, rentalId), eq(rentalReviews.reviewerId, reviewerId)));
+    return review;
+  }
+
+  async getReviewsForRental(rentalId: string): Promise<RentalReviewWithReviewer[]> {
+    return await db
+      .select({ ...getTableColumns(rentalReviews), reviewer: publicUserColumns })
+      .from(rentalReviews)
+      .innerJoin(users, eq(rentalReviews.reviewerId, users.id))
+      .where(eq(rentalReviews.rentalId, rentalId))
+      .orderBy(asc(rentalReviews.createdAt));
+  }
+
+  async getReviewsForUser(userId: string, limit = 20, offset = 0): Promise<RentalReviewWithReviewer[]> {
+    return await db
+      .select({ ...getTableColumns(rentalReviews), reviewer: publicUserColumns })
+      .from(rentalReviews)
+      .innerJoin(users, eq(rentalReviews.reviewerId, users.id))
+      .where(eq(rentalReviews.revieweeId, userId))
+      .orderBy(desc(rentalReviews.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getUserReputation(userId: string): Promise<Reputation> {
+    const [reputation] = await db
+      .select({
+        averageRating: sql<number | null>`avg(${rentalReviews.rating})::float`,
+        reviewCount: count(),
+      })
+      .from(rentalReviews)
+      .where(eq(rentalReviews.revieweeId, userId));
+
+    const [disputes] = await db
+      .select({ disputesLost: count() })
+      .from(rentalDisputes)
+      .where(and(eq(rentalDisputes.faultUserId, userId), eq(rentalDisputes.status, "resolved")));
+
+    return { ...reputation, disputesLost: disputes.disputesLost };
+  }
+
+  async createConditionReport(report: InsertRentalConditionReport): Promise<RentalConditionReport> {
+    const [newReport] = await db.insert(rentalConditionReports).values(report).returning();
+    return newReport;
+  }
+
+  async getConditionReports(rentalId: string): Promise<RentalConditionReport[]> {
+    return await db
+      .select()
+      .from(rentalConditionReports)
+      .where(eq(rentalConditionReports.rentalId, rentalId))
+      .orderBy(asc(rentalConditionReports.createdAt));
+  }
+
+  async createRentalDispute(dispute: InsertRentalDispute): Promise<RentalDispute> {
+    const [newDispute] = await db.insert(rentalDisputes).values(dispute).returning();
+    return newDispute;
+  }
+
+  async getRentalDispute(id: string): Promise<RentalDispute | undefined> {
+    const [dispute] = await db.select().from(rentalDisputes).where(eq(rentalDisputes.id, id));
+    return dispute;
+  }
+
+  async getRentalDisputes(rentalId: string): Promise<RentalDispute[]> {
+    return await db
+      .select()
+      .from(rentalDisputes)
+      .where(eq(rentalDisputes.rentalId, rentalId))
+      .orderBy(desc(rentalDisputes.createdAt));
+  }
+
+  async getDisputeQueue(statuses: DisputeStatus[]): Promise<RentalDisputeWithDetails[]> {
+    return await db
+      .select({
+        ...getTableColumns(rentalDisputes),
+        rental: getTableColumns(rentalRequests),
+        openedBy: getTableColumns(disputeOpeners),
+        respondent: getTableColumns(disputeRespondents),
+      })
+      .from(rentalDisputes)
+      .innerJoin(rentalRequests, eq(rentalDisputes.rentalId, rentalRequests.id))
+      .innerJoin(disputeOpeners, eq(rentalDisputes.openedById, disputeOpeners.id))
+      .innerJoin(disputeRespondents, eq(rentalDisputes.respondentId, disputeRespondents.id))
+      .where(inArray(rentalDisputes.status, statuses))
+      .orderBy(asc(rentalDisputes.createdAt));
+  }
+
+  async hasOpenDispute(rentalId: string): Promise<boolean> {
+    const [dispute] = await db
+      .select({ id: rentalDisputes.id })
+      .from(rentalDisputes)
+      .where(and(eq(rentalDisputes.rentalId, rentalId), ne(rentalDisputes.status, "resolved")))
+      .limit(1);
+    return !!dispute;
+  }
+
+  async respondToDispute(id: string, response: string, evidenceUrls: string[]): Promise<RentalDispute | undefined> {
+    const [updated] = await db
+      .update(rentalDisputes)
+      .set({
+        response,
+        responseEvidenceUrls: evidenceUrls,
+        respondedAt: new Date(),
+        status: "responded",
+        updatedAt: new Date(),
+      })
+      .where(and(eq(rentalDisputes.id, id), eq(rentalDisputes.status, "open")))
+      .returning();
+    return updated;
+  }
+
+  // Settles the rental's deposit in the same transaction so a resolved
+  // dispute and the money it decided never disagree.
+  async resolveDispute(
+    id: string,
+    resolution: { outcome: string; faultUserId?: string | null; depositRefund?: string | null; resolutionNotes?: string | null },
+    resolvedById: string,
+  ): Promise<RentalDispute | undefined> {
+    return await db.transaction(async (tx) => {
+      const [resolved] = await tx
+        .update(rentalDisputes)
+        .set({
+          ...resolution,
+          status: "resolved",
+          resolvedById,
+          resolvedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(rentalDisputes.id, id), ne(rentalDisputes.status, "resolved")))
+        .returning();
+      if (!resolved) return undefined;
+
+      if (resolution.depositRefund != null) {
+        await tx
+          .update(rentalRequests)
+          .set({ depositRefunded: resolution.depositRefund, updatedAt: new Date() })
+          .where(eq(rentalRequests.id, resolved.rentalId));
+      }
+      return resolved;
+    });
+  }
+
+  async createWaitlistEntry(entry: InsertRentalWaitlistEntry): Promise<RentalWaitlistEntry> {
+    const [newEntry] = await db.insert(rentalWaitlistEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async getWaitlistEntry(id: string): Promise<RentalWaitlistEntry | undefined> {
+    const [entry] = await db.select().from(rentalWaitlistEntries).where(eq(rentalWaitlistEntries.id, id));
+    return entry;
+  }
+
+  // Oldest first, which is the order entries are promoted in.
+  async getWaitlist(postId: string, statuses: WaitlistStatus[], userId?: string): Promise<RentalWaitlistEntry[]> {
+    const conditions = [
+      eq(rentalWaitlistEntries.postId, postId),
+      inArray(rentalWaitlistEntries.status, statuses),
+    ];
+    if (userId) {
+      conditions.push(eq(rentalWaitlistEntries.userId, userId));
+    }
+    return await db
+      .select()
+      .from(rentalWaitlistEntries)
+      .where(and(...conditions))
+      .orderBy(asc(rentalWaitlistEntries.createdAt));
+  }
+
+  // Compare-and-set, like updateRentalRequestStatus, so an entry is promoted at most once.
+  async updateWaitlistEntryStatus(id: string, from: WaitlistStatus, to: WaitlistStatus): Promise<RentalWaitlistEntry | undefined> {
+    const [updated] = await db
+      .update(rentalWaitlistEntries)
+      .set({ status: to, promotedAt: from === "waiting" && to !== "left" ? new Date() : undefined })
+      .where(and(eq(rentalWaitlistEntries.id, id), eq(rentalWaitlistEntries.status, from)))
+      .returning();
+    return updated;
+  }
+
+  async setWaitlistEntryRental(id: string, rentalId: string): Promise<void> {
+    await db.update(rentalWaitlistEntries).set({ rentalId }).where(eq(rentalWaitlistEntries.id, id));
+  }
+
+  async getCalendarFeed(userId: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return feed;
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async setCalendarFeedToken(userId: string, token: string): Promise<CalendarFeed> {
+    const [feed] = await db
+      .insert(calendarFeeds)
+      .values({ userId, token })
+      .onConflictDoUpdate({
+        target: calendarFeeds.userId,
+        set: { token, createdAt: new Date() },
+      })
+      .returning();
+    return feed;
+  }
+
+  async deleteCalendarFeed(userId: string): Promise<void> {
+    await db.delete(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+  }
+
+  // Returns undefined when a notification with the same dedupe key was already sent to this user.
+  async createNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    const [newNotification] = await db
+      .insert(notifications)
+      .values({ ...notification, actorIds: notification.actorId ? [notification.actorId] : [] })
+      .onConflictDoNothing({ target: [notifications.userId, notifications.dedupeKey] })
+      .returning();
+    if (newNotification) emitAppEvent("notification", newNotification);
+    return newNotification;
+  }
+
+  // Merges into the user's unread notification with the same group key, moving
+  // the actor to the front and the notification back to the top of the list.
+  async upsertGroupedNotification(
+    notification: InsertNotification & { groupKey: string; actorId: string },
+  ): Promise<Notification> {
+    const [merged] = await db
+      .insert(notifications)
+      .values({ ...notification, actorIds: [notification.actorId] })
+      .onConflictDoUpdate({
+        target: [notifications.userId, notifications.groupKey],
+        targetWhere: sql`${notifications.readAt} is null`,
+        set: {
+          actorId: notification.actorId,
+          actorIds: sql`array_prepend(${notification.actorId}::text, array_remove(${notifications.actorIds}, ${notification.actorId}::text))`,
+          message: notification.message,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    emitAppEvent("notification", merged);
+    return merged;
+  }
+
+  async getNotifications(userId: string, limit = 50): Promise<(Notification & { actor: PublicUser | null })[]> {
+    return await db
+      .select({ ...getTableColumns(notifications), actor: publicUserColumns })
+      .from(notifications)
+      .leftJoin(users, eq(notifications.actorId, users.id))
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async getNotification(id: string): Promise<(Notification & { actor: PublicUser | null }) | undefined> {
+    const [notification] = await db
+      .select({ ...getTableColumns(notifications), actor: publicUserColumns })
+      .from(notifications)
+      .leftJoin(users, eq(notifications.actorId, users.id))
+      .where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result.count;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [updated] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  async getOrCreateConversation(userId: string, otherUserId: string): Promise<Conversation> {
+    const [userAId, userBId] = [userId, otherUserId].sort();
+    await db
+      .insert(conversations)
+      .values({ userAId, userBId })
+      .onConflictDoNothing({ target: [conversations.userAId, conversations.userBId] });
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.userAId, userAId), eq(conversations.userBId, userBId)));
+    return conversation;
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async getConversationSummary(id: string, userId: string): Promise<ConversationSummary | undefined> {
+    const [summary] = await this.getConversationSummaries(userId, eq(conversations.id, id), 1);
+    return summary;
+  }
+
+  // Most recently active first. `cursor` is the id of the last conversation
+  // on the previous page.
+  async getConversations(userId: string, limit: number, cursor?: string): Promise<ConversationSummary[]> {
+    const after = cursor
+      ? sql`(${conversations.lastMessageAt}, ${conversations.id}) < (select last_message_at, id from ${conversations} where id = ${cursor})`
+      : undefined;
+    return await this.getConversationSummaries(userId, after, limit);
+  }
+
+  private async getConversationSummaries(
+    userId: string,
+    where: SQL | undefined,
+    limit: number,
+  ): Promise<ConversationSummary[]> {
+    const otherUserId = sql`case when ${conversations.userAId} = ${userId} then ${conversations.userBId} else ${conversations.userAId} end`;
+    const rows = await db
+      .select({ ...getTableColumns(conversations), otherUser: publicUserColumns })
+      .from(conversations)
+      .innerJoin(users, eq(users.id, otherUserId))
+      .where(and(or(eq(conversations.userAId, userId), eq(conversations.userBId, userId)), where))
+      .orderBy(desc(conversations.lastMessageAt), desc(conversations.id))
+      .limit(limit);
+    if (rows.length === 0) return [];
+
+    const ids = rows.map((row) => row.id);
+    const lastMessages = await db
+      .selectDistinctOn([messages.conversationId])
+      .from(messages)
+      .where(inArray(messages.conversationId, ids))
+      .orderBy(messages.conversationId, desc(messages.createdAt), desc(messages.id));
+    const unread = await db
+      .select({ conversationId: messages.conversationId, count: count() })
+      .from(messages)
+      .where(and(inArray(messages.conversationId, ids), ne(messages.senderId, userId), isNull(messages.readAt)))
+      .groupBy(messages.conversationId);
+
+    const lastMessageById = new Map(lastMessages.map((message) => [message.conversationId, message]));
+    const unreadById = new Map(unread.map((row) => [row.conversationId, row.count]));
+    return rows.map((row) => ({
+      ...row,
+      lastMessage: lastMessageById.get(row.id) ?? null,
+      unreadCount: unreadById.get(row.id) ?? 0,
+    }));
+  }
+
+  // Newest first. `cursor` is the id of the oldest message already loaded.
+  async getMessages(conversationId: string, limit: number, cursor?: string): Promise<Message[]> {
+    const before = cursor
+      ? sql`(${messages.createdAt}, ${messages.id}) < (select created_at, id from ${messages} where id = ${cursor})`
+      : undefined;
+    return await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), before))
+      .orderBy(desc(messages.createdAt), desc(messages.id))
+      .limit(limit);
+  }
+
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const { newMessage, conversation } = await db.transaction(async (tx) => {
+      const [newMessage] = await tx.insert(messages).values(message).returning();
+      const [conversation] = await tx
+        .update(conversations)
+        .set({ lastMessageAt: sql`now()` })
+        .where(eq(conversations.id, message.conversationId))
+        .returning();
+      return { newMessage, conversation };
+    });
+    emitAppEvent("message", newMessage, conversation);
+    return newMessage;
+  }
+
+  // Marks everything the other person sent as read. Returns how many messages changed.
+  async markConversationRead(conversation: Conversation, userId: string): Promise<number> {
+    const readAt = new Date();
+    const updated = await db
+      .update(messages)
+      .set({ readAt })
+      .where(
+        and(
+          eq(messages.conversationId, conversation.id),
+          ne(messages.senderId, userId),
+          isNull(messages.readAt),
+        ),
+      )
+      .returning({ id: messages.id });
+    if (updated.length > 0) {
+      emitAppEvent("messagesRead", { conversation, readerId: userId, readAt });
+    }
+    return updated.length;
+  }
+
+  async getUnreadMessageCount(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(
+        and(
+          or(eq(conversations.userAId, userId), eq(conversations.userBId, userId)),
+          ne(messages.senderId, userId),
+          isNull(messages.readAt),
+        ),
+      );
+    return result.count;
+  }
+
+  async getBusyRanges(postId: string, from = new Date()): Promise<BusyRange[]> {
+    const booked = await db
+      .select({ startDate: rentalRequests.startDate, endDate: rentalRequests.endDate })
+      .from(rentalRequests)
+      .where(
+        and(
+          eq(rentalRequests.postId, postId),
+          inArray(rentalRequests.status, bookedRentalStatuses),
+          gt(rentalRequests.endDate, from),
+        ),
+      );
+
+    const blocked = await db
+      .select({ startDate: rentalBlockedDates.startDate, endDate: rentalBlockedDates.endDate })
+      .from(rentalBlockedDates)
+      .where(and(eq(rentalBlockedDates.postId, postId), gt(rentalBlockedDates.endDate, from)));
+
+    return [
+      ...booked.map((range) => ({ ...range, kind: "rented" as const })),
+      ...blocked.map((range) => ({ ...range, kind: "blocked" as const })),
+    ].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  }
+
+  // Two ranges overlap when each one starts before the other ends, so a
+  // pickup on the day a previous renter returns the item is allowed.
+  async hasBookingConflict(postId: string, startDate: Date, endDate: Date, excludeRentalId?: string): Promise<boolean> {
+    const rentalConditions = [
+      eq(rentalRequests.postId, postId),
+      inArray(rentalRequests.status, bookedRentalStatuses),
+      lt(rentalRequests.startDate, endDate),
+      gt(rentalRequests.endDate, startDate),
+    ];
+    if (excludeRentalId) {
+      rentalConditions.push(ne(rentalRequests.id, excludeRentalId));
+    }
+
+    const [rental] = await db
+      .select({ id: rentalRequests.id })
+      .from(rentalRequests)
+      .where(and(...rentalConditions))
+      .limit(1);
+    if (rental) return true;
+
+    const [block] = await db
+      .select({ id: rentalBlockedDates.id })
+      .from(rentalBlockedDates)
+      .where(
+        and(
+          eq(rentalBlockedDates.postId, postId),
+          lt(rentalBlockedDates.startDate, endDate),
+          gt(rentalBlockedDates.endDate, startDate),
+        ),
+      )
+      .limit(1);
+    return !!block;
+  }
+
+  async getBlockedDates(postId: string): Promise<RentalBlockedDate[]> {
+    return await db
+      .select()
+      .from(rentalBlockedDates)
+      .where(eq(rentalBlockedDates.postId, postId))
+      .orderBy(asc(rentalBlockedDates.startDate));
+  }
+
+  async createBlockedDate(block: InsertRentalBlockedDate): Promise<RentalBlockedDate> {
+    const [newBlock] = await db.insert(rentalBlockedDates).values(block).returning();
+    return newBlock;
+  }
+
+  async deleteBlockedDate(id: string, postId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(rentalBlockedDates)
+      .where(and(eq(rentalBlockedDates.id, id), eq(rentalBlockedDates.postId, postId)))
+      .returning({ id: rentalBlockedDates.id });
+    return deleted.length > 0;
   }
 
   async getUserBadges(userId: string): Promise<Badge[]> {
@@ -473,6 +1691,12 @@ export class DatabaseStorage implements IStorage {
           userId,
           badgeId: badge.id,
         });
+        await this.createNotification({
+          userId,
+          type: "badge_earned",
+          message: `You earned the "${badge.name}" badge.`,
+          dedupeKey: `badge_earned:${badge.id}`,
+        });
       }
     }
   }
@@ -0,0 +1,67 @@
+import { format } from "date-fns";
+import { asLocalDay, earliestBookableDate } from "@shared/calendarDates";
+import { storage } from "./storage";
+import { notifyRentalRequest } from "./notifications";
+import { openRentalConversation } from "./messages";
+import type { RentalWaitlistEntry } from "@shared/schema";
+
+function dateRange(entry: RentalWaitlistEntry): string {
+  return `${format(asLocalDay(entry.startDate), "MMM d")} – ${format(asLocalDay(entry.endDate), "MMM d")}`;
+}
+
+/**
+ * Called after a rental on `postId` is declined or cancelled. Finds the oldest
+ * waiting entry whose dates no longer conflict and either tells that user the
+ * dates are free or, if they opted in, files a pending request for them.
+ * Only one entry is promoted per call; entries are claimed with a
+ * compare-and-set so concurrent calls cannot promote the same one twice.
+ */
+export async function promoteWaitlist(postId: string, now = new Date()): Promise<RentalWaitlistEntry | undefined> {
+  const post = await storage.getPost(postId);
+  if (!post || !post.availableForRent) return undefined;
+
+  const title = post.caption?.split(".")[0] || "an item";
+  const entries = await storage.getWaitlist(postId, ["waiting"]);
+
+  for (const entry of entries) {
+    if (entry.startDate < earliestBookableDate(now)) continue;
+    if (await storage.hasBookingConflict(postId, entry.startDate, entry.endDate)) continue;
+
+    if (entry.autoRequest) {
+      const claimed = await storage.updateWaitlistEntryStatus(entry.id, "waiting", "requested");
+      if (!claimed) continue;
+
+      const rental = await storage.createRentalRequest({
+        requesterId: entry.userId,
+        ownerId: post.userId,
+        postId,
+        startDate: entry.startDate,
+        endDate: entry.endDate,
+        message: entry.message,
+        status: "pending",
+      });
+      await storage.setWaitlistEntryRental(entry.id, rental.id);
+      await notifyRentalRequest(rental);
+      await openRentalConversation(rental);
+      await storage.createNotification({
+        userId: entry.userId,
+        type: "rental_waitlist_requested",
+        rentalId: rental.id,
+        message: `"${title}" opened up for ${dateRange(entry)}, so we sent the owner a request for you.`,
+      });
+      return claimed;
+    }
+
+    const claimed = await storage.updateWaitlistEntryStatus(entry.id, "waiting", "notified");
+    if (!claimed) continue;
+
+    await storage.createNotification({
+      userId: entry.userId,
+      type: "rental_waitlist_open",
+      message: `"${title}" is now free for ${dateRange(entry)}. Request it before someone else does.`,
+    });
+    return claimed;
+  }
+
+  return undefined;
+}
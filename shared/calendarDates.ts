@@ -0,0 +1,33 @@
+import { differenceInCalendarDays, format } from "date-fns";
+
+// Rental dates are whole calendar days. The client sends them as "yyyy-MM-dd"
+// and they are stored as UTC midnight, so a date names the same day whichever
+// timezone reads it. Shared so the client and server count days the same way.
+
+export const calendarDatePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A day picked in the browser, as sent to the server. */
+export function toCalendarDate(day: Date): string {
+  return format(day, "yyyy-MM-dd");
+}
+
+/** A stored rental date as local midnight of the same day, for formatting and date pickers. */
+export function asLocalDay(value: Date | string): Date {
+  const date = new Date(value);
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/** Whole days from `start` to `end`. A DST change in between doesn't add or lose one. */
+export function calendarDaysBetween(start: Date, end: Date): number {
+  return differenceInCalendarDays(asLocalDay(end), asLocalDay(start));
+}
+
+/**
+ * The earliest rental date that can still be booked: the date at UTC−12,
+ * where today ends last. Anyone for whom it is still that day can book it,
+ * whatever the server's own timezone.
+ */
+export function earliestBookableDate(now = new Date()): Date {
+  const behind = new Date(now.getTime() - 12 * 60 * 60 * 1000);
+  return new Date(Date.UTC(behind.getUTCFullYear(), behind.getUTCMonth(), behind.getUTCDate()));
+}
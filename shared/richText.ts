@@ -0,0 +1,72 @@
+// Parsing for @mentions and #hashtags in captions and comments. Shared so the
+// server indexes exactly the tokens the client renders as links.
+
+export type RichTextSegment =
+  | { type: "text"; text: string }
+  | { type: "mention"; text: string; username: string }
+  | { type: "hashtag"; text: string; tag: string };
+
+// Word characters are ASCII letters, digits, underscore and accented Latin letters.
+// A token starts at the beginning of the text or after a non-word character,
+// so "me@example.com" is not a mention and "a#b" is not a hashtag.
+const tokenPattern = /(^|[^A-Za-z0-9_\u00C0-\u024F])([@#])([A-Za-z0-9_.\u00C0-\u024F]+)/g;
+
+const usernamePattern = /^[a-z0-9_.]{3,30}$/;
+const tagPattern = /^[a-z0-9_\u00C0-\u024F]{1,50}$/;
+const letterPattern = /[a-z\u00C0-\u024F]/;
+
+/** Lowercases a tag and strips a leading "#". Returns null for anything that isn't a usable tag. */
+export function normalizeTag(raw: string): string | null {
+  const tag = raw.trim().replace(/^#+/, "").toLowerCase();
+  if (!tagPattern.test(tag) || !letterPattern.test(tag)) return null;
+  return tag;
+}
+
+/** Normalizes and de-duplicates tags, keeping first-seen order. */
+export function normalizeTags(raw: string[]): string[] {
+  const tags = raw.map(normalizeTag).filter((tag): tag is string => tag !== null);
+  return Array.from(new Set(tags));
+}
+
+export function parseRichText(text: string): RichTextSegment[] {
+  const segments: RichTextSegment[] = [];
+  let plain = "";
+  let lastIndex = 0;
+
+  for (const match of Array.from(text.matchAll(tokenPattern))) {
+    const [, lead, sigil, body] = match;
+    const start = match.index! + lead.length;
+
+    // Hashtags stop at the first dot; usernames may contain dots but not end with one.
+    const token = sigil === "#" ? body.split(".")[0] : body.replace(/\.+$/, "");
+    const value = token.toLowerCase();
+    const valid = sigil === "#" ? normalizeTag(token) !== null : usernamePattern.test(value);
+    if (!valid) continue;
+
+    plain += text.slice(lastIndex, start);
+    if (plain) segments.push({ type: "text", text: plain });
+    plain = "";
+
+    const tokenText = sigil + token;
+    segments.push(
+      sigil === "#"
+        ? { type: "hashtag", text: tokenText, tag: value }
+        : { type: "mention", text: tokenText, username: value },
+    );
+    lastIndex = start + tokenText.length;
+  }
+
+  plain += text.slice(lastIndex);
+  if (plain) segments.push({ type: "text", text: plain });
+  return segments;
+}
+
+export function extractMentions(text: string): string[] {
+  const usernames = parseRichText(text).flatMap((segment) => (segment.type === "mention" ? [segment.username] : []));
+  return Array.from(new Set(usernames));
+}
+
+export function extractHashtags(text: string): string[] {
+  const tags = parseRichText(text).flatMap((segment) => (segment.type === "hashtag" ? [segment.tag] : []));
+  return Array.from(new Set(tags));
+}
@@ -1,6 +1,8 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  unique,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -9,10 +11,12 @@ import {
   integer,
   boolean,
   decimal,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { calendarDatePattern } from "./calendarDates";
 
 // Session storage table.
 export const sessions = pgTable(
@@ -39,30 +43,72 @@ export const users = pgTable("users", {
   waterSaved: decimal("water_saved", { precision: 10, scale: 2 }).default("0"),
   carbonReduced: decimal("carbon_reduced", { precision: 10, scale: 2 }).default("0"),
   itemsReused: integer("items_reused").default(0),
+  isAdmin: boolean("is_admin").default(false),
+  // Set once the member edits their name or avatar; login stops syncing those from the auth provider.
+  profileEditedAt: timestamp("profile_edited_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const posts = pgTable("posts", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  imageUrl: varchar("image_url").notNull(),
-  caption: text("caption"),
-  tags: text("tags").array(),
-  thriftStore: varchar("thrift_store"),
-  pricePaid: decimal("price_paid", { precision: 8, scale: 2 }),
-  originalBrand: varchar("original_brand"),
-  availableForRent: boolean("available_for_rent").default(false),
-  rentPrice: decimal("rent_price", { precision: 8, scale: 2 }),
-  size: varchar("size"),
-  waterSaved: decimal("water_saved", { precision: 8, scale: 2 }).default("0"),
-  carbonReduced: decimal("carbon_reduced", { precision: 8, scale: 2 }).default("0"),
-  ecoPoints: integer("eco_points").default(0),
-  likesCount: integer("likes_count").default(0),
-  commentsCount: integer("comments_count").default(0),
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
-});
+export const posts = pgTable(
+  "posts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    imageUrl: varchar("image_url").notNull(),
+    caption: text("caption"),
+    tags: text("tags").array(),
+    thriftStore: varchar("thrift_store"),
+    pricePaid: decimal("price_paid", { precision: 8, scale: 2 }),
+    originalBrand: varchar("original_brand"),
+    availableForRent: boolean("available_for_rent").default(false),
+    rentPrice: decimal("rent_price", { precision: 8, scale: 2 }), // per day
+    rentWeeklyPrice: decimal("rent_weekly_price", { precision: 8, scale: 2 }),
+    rentMinDays: integer("rent_min_days").default(1),
+    rentDeposit: decimal("rent_deposit", { precision: 8, scale: 2 }), // refundable
+    rentCleaningFee: decimal("rent_cleaning_fee", { precision: 8, scale: 2 }),
+    rentLateFee: decimal("rent_late_fee", { precision: 8, scale: 2 }), // per day overdue
+    size: varchar("size"),
+    waterSaved: decimal("water_saved", { precision: 8, scale: 2 }).default("0"),
+    carbonReduced: decimal("carbon_reduced", { precision: 8, scale: 2 }).default("0"),
+    ecoPoints: integer("eco_points").default(0),
+    likesCount: integer("likes_count").default(0),
+    commentsCount: integer("comments_count").default(0),
+    // Drafts are only visible to their author and have not been credited to their
+    // totals yet. A draft with publishAt is published by the scheduler at that time.
+    status: varchar("status").notNull().default("published"), // see postStatuses
+    publishAt: timestamp("publish_at"),
+    // Soft delete: rentals made on the post keep their history after it is removed.
+    deletedAt: timestamp("deleted_at"),
+    // For a published draft, when it was published.
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_post_scheduled").on(table.status, table.publishAt)],
+);
+
+// One resized copy of an uploaded photo.
+export type ImageVariant = { width: number; format: "jpeg" | "webp"; url: string };
+
+// A post's photos in display order. The first one is also kept in
+// posts.imageUrl as the cover, for lists that only show one picture.
+// Photos uploaded before the image pipeline have no size, placeholder or variants.
+export const postImages = pgTable(
+  "post_images",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    postId: varchar("post_id").notNull().references(() => posts.id),
+    url: varchar("url").notNull(),
+    altText: varchar("alt_text", { length: 200 }),
+    width: integer("width"),
+    height: integer("height"),
+    blurhash: varchar("blurhash", { length: 100 }),
+    variants: jsonb("variants").$type<ImageVariant[]>().notNull().default([]),
+    position: integer("position").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_post_image_post").on(table.postId, table.position)],
+);
 
 export const likes = pgTable("likes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -71,13 +117,48 @@ export const likes = pgTable("likes", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const comments = pgTable("comments", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  postId: varchar("post_id").notNull().references(() => posts.id),
-  content: text("content").notNull(),
-  createdAt: timestamp("created_at").defaultNow(),
-});
+export const follows = pgTable(
+  "follows",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    followerId: varchar("follower_id").notNull().references(() => users.id),
+    followingId: varchar("following_id").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("UQ_follow_pair").on(table.followerId, table.followingId),
+    index("IDX_follow_following").on(table.followingId),
+  ],
+);
+
+// Muted users' posts are hidden from the muter's feeds without unfollowing.
+export const mutes = pgTable(
+  "mutes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    muterId: varchar("muter_id").notNull().references(() => users.id),
+    mutedId: varchar("muted_id").notNull().references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [unique("UQ_mute_pair").on(table.muterId, table.mutedId)],
+);
+
+export const comments = pgTable(
+  "comments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    postId: varchar("post_id").notNull().references(() => posts.id),
+    // Replies point at a top-level comment; replies to replies are not allowed.
+    parentId: varchar("parent_id").references((): AnyPgColumn => comments.id),
+    content: text("content").notNull(),
+    editedAt: timestamp("edited_at"),
+    // Soft delete: the row stays so its replies keep their place in the thread.
+    deletedAt: timestamp("deleted_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_comment_post").on(table.postId, table.createdAt)],
+);
 
 export const rentalRequests = pgTable("rental_requests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -86,13 +167,239 @@ export const rentalRequests = pgTable("rental_requests", {
   ownerId: varchar("owner_id").notNull().references(() => users.id),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
-  status: varchar("status").notNull().default("pending"), // pending, approved, declined, completed
+  status: varchar("status").notNull().default("pending"), // see rentalStatuses
+  rentalFee: decimal("rental_fee", { precision: 8, scale: 2 }),
+  cleaningFee: decimal("cleaning_fee", { precision: 8, scale: 2 }),
+  securityDeposit: decimal("security_deposit", { precision: 8, scale: 2 }),
   totalPrice: decimal("total_price", { precision: 8, scale: 2 }),
+  depositRefunded: decimal("deposit_refunded", { precision: 8, scale: 2 }),
+  lateFees: decimal("late_fees", { precision: 8, scale: 2 }).default("0"), // owed on top of totalPrice
+  lateDaysCharged: integer("late_days_charged").default(0),
   message: text("message"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Date ranges an owner has marked their item as unavailable for rent.
+export const rentalBlockedDates = pgTable("rental_blocked_dates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  postId: varchar("post_id").notNull().references(() => posts.id),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One review per party per completed rental. The requester also rates the
+// condition the item arrived in.
+export const rentalReviews = pgTable(
+  "rental_reviews",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    rentalId: varchar("rental_id").notNull().references(() => rentalRequests.id),
+    reviewerId: varchar("reviewer_id").notNull().references(() => users.id),
+    revieweeId: varchar("reviewee_id").notNull().references(() => users.id),
+    reviewerRole: varchar("reviewer_role").notNull(), // owner, requester
+    rating: integer("rating").notNull(),
+    itemConditionRating: integer("item_condition_rating"),
+    comment: text("comment"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("UQ_rental_review_reviewer").on(table.rentalId, table.reviewerId),
+    index("IDX_rental_review_reviewee").on(table.revieweeId),
+  ],
+);
+
+// Condition of a rented item at pickup (check_out) and return (check_in), as
+// seen by each party. `issues` holds the ticked conditionChecklistItems.
+export const rentalConditionReports = pgTable(
+  "rental_condition_reports",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    rentalId: varchar("rental_id").notNull().references(() => rentalRequests.id),
+    reporterId: varchar("reporter_id").notNull().references(() => users.id),
+    reporterRole: varchar("reporter_role").notNull(), // owner, requester
+    stage: varchar("stage").notNull(), // check_out, check_in
+    issues: text("issues").array(),
+    notes: text("notes"),
+    photoUrls: text("photo_urls").array(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("UQ_condition_report_stage").on(table.rentalId, table.reporterId, table.stage),
+  ],
+);
+
+// A problem with a rental raised by one party. The other party may respond
+// once, then an admin resolves it. Open disputes freeze the rental's status.
+export const rentalDisputes = pgTable("rental_disputes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rentalId: varchar("rental_id").notNull().references(() => rentalRequests.id),
+  openedById: varchar("opened_by_id").notNull().references(() => users.id),
+  respondentId: varchar("respondent_id").notNull().references(() => users.id),
+  kind: varchar("kind").notNull(), // see disputeKinds
+  description: text("description").notNull(),
+  evidenceUrls: text("evidence_urls").array(),
+  checkOutReportId: varchar("check_out_report_id").references(() => rentalConditionReports.id),
+  checkInReportId: varchar("check_in_report_id").references(() => rentalConditionReports.id),
+  status: varchar("status").notNull().default("open"), // see disputeStatuses
+  response: text("response"),
+  responseEvidenceUrls: text("response_evidence_urls").array(),
+  respondedAt: timestamp("responded_at"),
+  outcome: varchar("outcome"), // see disputeOutcomes
+  faultUserId: varchar("fault_user_id").references(() => users.id),
+  depositRefund: decimal("deposit_refund", { precision: 8, scale: 2 }),
+  resolutionNotes: text("resolution_notes"),
+  resolvedById: varchar("resolved_by_id").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// People waiting for a booked item. When a conflicting rental is declined or
+// cancelled, the oldest entry whose dates now fit is notified, or gets a
+// pending request created for it when `autoRequest` is set.
+export const rentalWaitlistEntries = pgTable(
+  "rental_waitlist_entries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    postId: varchar("post_id").notNull().references(() => posts.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    startDate: timestamp("start_date").notNull(),
+    endDate: timestamp("end_date").notNull(),
+    message: text("message"),
+    autoRequest: boolean("auto_request").default(false),
+    status: varchar("status").notNull().default("waiting"), // see waitlistStatuses
+    rentalId: varchar("rental_id").references(() => rentalRequests.id),
+    promotedAt: timestamp("promoted_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_waitlist_post").on(table.postId, table.createdAt)],
+);
+
+// Secret token for a user's iCalendar feed. Kept out of `users` so it never
+// leaks through the user objects embedded in posts and rentals. Deleting the
+// row revokes the feed; replacing the token invalidates old subscriptions.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  token: varchar("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// In-app notifications. `rentalId` plus `type` identifies a rental milestone so
+// the late-return job can re-run without notifying anyone twice.
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    type: varchar("type").notNull(), // see notificationTypes
+    rentalId: varchar("rental_id").references(() => rentalRequests.id),
+    postId: varchar("post_id").references(() => posts.id),
+    commentId: varchar("comment_id").references(() => comments.id),
+    // Who caused it, most recent first. Empty for system notifications.
+    actorId: varchar("actor_id").references(() => users.id),
+    actorIds: text("actor_ids").array().notNull().default(sql`'{}'::text[]`),
+    // For actor notifications the message is what they did ("liked your post");
+    // otherwise it is the full sentence.
+    message: text("message").notNull(),
+    // Unread notifications with the same group key are merged into one.
+    groupKey: varchar("group_key"),
+    // A notification with a dedupe key is only ever sent once per user.
+    dedupeKey: varchar("dedupe_key"),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("UQ_notification_dedupe").on(table.userId, table.dedupeKey),
+    uniqueIndex("UQ_notification_unread_group")
+      .on(table.userId, table.groupKey)
+      .where(sql`${table.readAt} is null`),
+    index("IDX_notification_user").on(table.userId, table.createdAt),
+  ],
+);
+
+// @username mentions in a post's caption (commentId null) or in a comment.
+export const mentions = pgTable(
+  "mentions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    mentionedUserId: varchar("mentioned_user_id").notNull().references(() => users.id),
+    authorId: varchar("author_id").notNull().references(() => users.id),
+    postId: varchar("post_id").notNull().references(() => posts.id),
+    commentId: varchar("comment_id").references(() => comments.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("UQ_mention_source").on(table.mentionedUserId, table.postId, table.commentId).nullsNotDistinct(),
+  ],
+);
+
+// Normalized #tags used by a post: its explicit tags and caption hashtags
+// (commentId null), plus hashtags written in its comments.
+export const hashtags = pgTable(
+  "hashtags",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    tag: varchar("tag", { length: 50 }).notNull(),
+    postId: varchar("post_id").notNull().references(() => posts.id),
+    commentId: varchar("comment_id").references(() => comments.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("UQ_hashtag_source").on(table.tag, table.postId, table.commentId).nullsNotDistinct(),
+    index("IDX_hashtag_tag").on(table.tag, table.createdAt),
+  ],
+);
+
+// One row per tag with the number of posts using it, kept in step with the
+// post-level rows in `hashtags`.
+export const tags = pgTable(
+  "tags",
+  {
+    tag: varchar("tag", { length: 50 }).primaryKey(),
+    postsCount: integer("posts_count").notNull().default(0),
+    lastUsedAt: timestamp("last_used_at").defaultNow(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_tag_posts_count").on(table.postsCount)],
+);
+
+// A 1:1 conversation. The pair is stored in id order (userAId < userBId) so
+// two people only ever have one conversation.
+export const conversations = pgTable(
+  "conversations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userAId: varchar("user_a_id").notNull().references(() => users.id),
+    userBId: varchar("user_b_id").notNull().references(() => users.id),
+    lastMessageAt: timestamp("last_message_at").notNull().defaultNow(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("UQ_conversation_pair").on(table.userAId, table.userBId),
+    index("IDX_conversation_user_a").on(table.userAId, table.lastMessageAt),
+    index("IDX_conversation_user_b").on(table.userBId, table.lastMessageAt),
+  ],
+);
+
+export const messages = pgTable(
+  "messages",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    conversationId: varchar("conversation_id").notNull().references(() => conversations.id),
+    senderId: varchar("sender_id").notNull().references(() => users.id),
+    body: text("body").notNull(),
+    // Set when the message was sent about a rental, e.g. the note on a request.
+    rentalId: varchar("rental_id").references(() => rentalRequests.id),
+    // When the recipient opened the conversation after it arrived.
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_message_conversation").on(table.conversationId, table.createdAt)],
+);
+
 export const badges = pgTable("badges", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
@@ -114,8 +421,17 @@ export const usersRelations = relations(users, ({ many }) => ({
   posts: many(posts),
   likes: many(likes),
   comments: many(comments),
+  following: many(follows, { relationName: "follower" }),
+  followers: many(follows, { relationName: "following" }),
+  mutes: many(mutes, { relationName: "muter" }),
   rentalRequests: many(rentalRequests, { relationName: "requester" }),
   rentalRequestsOwned: many(rentalRequests, { relationName: "owner" }),
+  reviewsWritten: many(rentalReviews, { relationName: "reviewer" }),
+  reviewsReceived: many(rentalReviews, { relationName: "reviewee" }),
+  disputesOpened: many(rentalDisputes, { relationName: "disputeOpener" }),
+  disputesAgainst: many(rentalDisputes, { relationName: "disputeRespondent" }),
+  notifications: many(notifications),
+  waitlistEntries: many(rentalWaitlistEntries),
   userBadges: many(userBadges),
 }));
 
@@ -124,9 +440,19 @@ export const postsRelations = relations(posts, ({ one, many }) => ({
     fields: [posts.userId],
     references: [users.id],
   }),
+  images: many(postImages),
   likes: many(likes),
   comments: many(comments),
   rentalRequests: many(rentalRequests),
+  rentalBlockedDates: many(rentalBlockedDates),
+  waitlistEntries: many(rentalWaitlistEntries),
+}));
+
+export const postImagesRelations = relations(postImages, ({ one }) => ({
+  post: one(posts, {
+    fields: [postImages.postId],
+    references: [posts.id],
+  }),
 }));
 
 export const likesRelations = relations(likes, ({ one }) => ({
@@ -140,7 +466,32 @@ export const likesRelations = relations(likes, ({ one }) => ({
   }),
 }));
 
-export const commentsRelations = relations(comments, ({ one }) => ({
+export const followsRelations = relations(follows, ({ one }) => ({
+  follower: one(users, {
+    fields: [follows.followerId],
+    references: [users.id],
+    relationName: "follower",
+  }),
+  following: one(users, {
+    fields: [follows.followingId],
+    references: [users.id],
+    relationName: "following",
+  }),
+}));
+
+export const mutesRelations = relations(mutes, ({ one }) => ({
+  muter: one(users, {
+    fields: [mutes.muterId],
+    references: [users.id],
+    relationName: "muter",
+  }),
+  muted: one(users, {
+    fields: [mutes.mutedId],
+    references: [users.id],
+  }),
+}));
+
+export const commentsRelations = relations(comments, ({ one, many }) => ({
   user: one(users, {
     fields: [comments.userId],
     references: [users.id],
@@ -149,9 +500,15 @@ export const commentsRelations = relations(comments, ({ one }) => ({
     fields: [comments.postId],
     references: [posts.id],
   }),
+  parent: one(comments, {
+    fields: [comments.parentId],
+    references: [comments.id],
+    relationName: "replies",
+  }),
+  replies: many(comments, { relationName: "replies" }),
 }));
 
-export const rentalRequestsRelations = relations(rentalRequests, ({ one }) => ({
+export const rentalRequestsRelations = relations(rentalRequests, ({ one, many }) => ({
   requester: one(users, {
     fields: [rentalRequests.requesterId],
     references: [users.id],
@@ -166,6 +523,122 @@ export const rentalRequestsRelations = relations(rentalRequests, ({ one }) => ({
     fields: [rentalRequests.postId],
     references: [posts.id],
   }),
+  reviews: many(rentalReviews),
+  conditionReports: many(rentalConditionReports),
+  disputes: many(rentalDisputes),
+}));
+
+export const rentalConditionReportsRelations = relations(rentalConditionReports, ({ one }) => ({
+  rental: one(rentalRequests, {
+    fields: [rentalConditionReports.rentalId],
+    references: [rentalRequests.id],
+  }),
+  reporter: one(users, {
+    fields: [rentalConditionReports.reporterId],
+    references: [users.id],
+  }),
+}));
+
+export const rentalDisputesRelations = relations(rentalDisputes, ({ one }) => ({
+  rental: one(rentalRequests, {
+    fields: [rentalDisputes.rentalId],
+    references: [rentalRequests.id],
+  }),
+  openedBy: one(users, {
+    fields: [rentalDisputes.openedById],
+    references: [users.id],
+    relationName: "disputeOpener",
+  }),
+  respondent: one(users, {
+    fields: [rentalDisputes.respondentId],
+    references: [users.id],
+    relationName: "disputeRespondent",
+  }),
+  checkOutReport: one(rentalConditionReports, {
+    fields: [rentalDisputes.checkOutReportId],
+    references: [rentalConditionReports.id],
+  }),
+  checkInReport: one(rentalConditionReports, {
+    fields: [rentalDisputes.checkInReportId],
+    references: [rentalConditionReports.id],
+  }),
+}));
+
+export const rentalReviewsRelations = relations(rentalReviews, ({ one }) => ({
+  rental: one(rentalRequests, {
+    fields: [rentalReviews.rentalId],
+    references: [rentalRequests.id],
+  }),
+  reviewer: one(users, {
+    fields: [rentalReviews.reviewerId],
+    references: [users.id],
+    relationName: "reviewer",
+  }),
+  reviewee: one(users, {
+    fields: [rentalReviews.revieweeId],
+    references: [users.id],
+    relationName: "reviewee",
+  }),
+}));
+
+export const rentalBlockedDatesRelations = relations(rentalBlockedDates, ({ one }) => ({
+  post: one(posts, {
+    fields: [rentalBlockedDates.postId],
+    references: [posts.id],
+  }),
+}));
+
+export const rentalWaitlistEntriesRelations = relations(rentalWaitlistEntries, ({ one }) => ({
+  post: one(posts, {
+    fields: [rentalWaitlistEntries.postId],
+    references: [posts.id],
+  }),
+  user: one(users, {
+    fields: [rentalWaitlistEntries.userId],
+    references: [users.id],
+  }),
+  rental: one(rentalRequests, {
+    fields: [rentalWaitlistEntries.rentalId],
+    references: [rentalRequests.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+  }),
+  rental: one(rentalRequests, {
+    fields: [notifications.rentalId],
+    references: [rentalRequests.id],
+  }),
+}));
+
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  userA: one(users, {
+    fields: [conversations.userAId],
+    references: [users.id],
+  }),
+  userB: one(users, {
+    fields: [conversations.userBId],
+    references: [users.id],
+  }),
+  messages: many(messages),
+}));
+
+export const messagesRelations = relations(messages, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [messages.conversationId],
+    references: [conversations.id],
+  }),
+  sender: one(users, {
+    fields: [messages.senderId],
+    references: [users.id],
+  }),
+  rental: one(rentalRequests, {
+    fields: [messages.rentalId],
+    references: [rentalRequests.id],
+  }),
 }));
 
 export const userBadgesRelations = relations(userBadges, ({ one }) => ({
@@ -190,48 +663,506 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
-export const insertPostSchema = createInsertSchema(posts).omit({
+export const reservedUsernames = [
+  "admin", "administrator", "api", "login", "logout", "me", "moderator", "profile",
+  "rent", "settings", "support", "thriftshare", "u", "uploads", "users",
+];
+
+export const usernameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(3, "Username must be at least 3 characters")
+  .max(30, "Username must be at most 30 characters")
+  .regex(/^[a-z0-9_.]+$/, "Username can only use letters, numbers, dots and underscores")
+  .refine((name) => !/^[._]|[._]$/.test(name), "Username cannot start or end with a dot or underscore")
+  .refine((name) => !reservedUsernames.includes(name), "That username is reserved");
+
+// Blank strings from the edit form clear the field.
+const optionalText = (max: number) =>
+  z.string().trim().max(max).transform((value) => value || null).nullish();
+
+export const updateProfileSchema = z.object({
+  username: usernameSchema.optional(),
+  firstName: optionalText(50),
+  lastName: optionalText(50),
+  bio: optionalText(300),
+  location: optionalText(100),
+});
+
+export const postStatuses = ["draft", "published"] as const;
+export type PostStatus = (typeof postStatuses)[number];
+
+// Blank clears the schedule.
+const publishAtField = z.preprocess(
+  (value) => (value === "" ? null : value),
+  z.coerce
+    .date()
+    .nullish()
+    .refine((date) => !date || date > new Date(), "Pick a publish time in the future"),
+);
+
+export const insertPostSchema = createInsertSchema(posts)
+  .omit({
+    id: true,
+    deletedAt: true,
+    createdAt: true,
+    updatedAt: true,
+    likesCount: true,
+    commentsCount: true,
+  })
+  .extend({
+    status: z.enum(postStatuses).optional(),
+    publishAt: publishAtField,
+  });
+
+// What the owner can change after posting. The impact numbers are fixed, since
+// the user's totals were credited from them. publishAt only applies to drafts.
+export const updatePostSchema = insertPostSchema
+  .pick({
+    caption: true,
+    tags: true,
+    thriftStore: true,
+    pricePaid: true,
+    originalBrand: true,
+    size: true,
+    availableForRent: true,
+    rentPrice: true,
+    rentWeeklyPrice: true,
+    rentMinDays: true,
+    rentDeposit: true,
+    rentCleaningFee: true,
+    rentLateFee: true,
+    publishAt: true,
+  })
+  .partial();
+
+export const MAX_POST_IMAGES = 10;
+
+const altTextField = z
+  .string()
+  .trim()
+  .max(200)
+  .nullish()
+  .transform((value) => value || null);
+
+// The gallery as the client wants it after an edit, in display order: kept
+// photos by id, new uploads by their index among the uploaded files. Photos
+// left out are removed.
+export const postGallerySchema = z
+  .array(
+    z.union([
+      z.object({ id: z.string(), altText: altTextField }),
+      z.object({ file: z.number().int().min(0), altText: altTextField }),
+    ]),
+  )
+  .min(1, "A post needs at least one photo")
+  .max(MAX_POST_IMAGES, `A post can have at most ${MAX_POST_IMAGES} photos`);
+
+export const postImageAltTextsSchema = z.array(altTextField).max(MAX_POST_IMAGES);
+
+// Whole days as "yyyy-MM-dd", stored as UTC midnight (see calendarDates.ts).
+const calendarDateField = z
+  .string()
+  .regex(calendarDatePattern, "Dates must be given as yyyy-MM-dd")
+  .pipe(z.coerce.date());
+
+const dateRangeFields = {
+  startDate: calendarDateField,
+  endDate: calendarDateField,
+};
+
+// Prices are computed by the server from the post, never taken from the client.
+export const insertRentalRequestSchema = createInsertSchema(rentalRequests)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+    rentalFee: true,
+    cleaningFee: true,
+    securityDeposit: true,
+    totalPrice: true,
+    depositRefunded: true,
+    lateFees: true,
+    lateDaysCharged: true,
+  })
+  .extend(dateRangeFields)
+  .refine((data) => data.endDate > data.startDate, {
+    message: "End date must be after start date",
+    path: ["endDate"],
+  });
+
+export const rentalDateRangeSchema = z
+  .object(dateRangeFields)
+  .refine((data) => data.endDate > data.startDate, {
+    message: "End date must be after start date",
+    path: ["endDate"],
+  });
+
+export const insertRentalBlockedDateSchema = createInsertSchema(rentalBlockedDates)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend(dateRangeFields)
+  .refine((data) => data.endDate > data.startDate, {
+    message: "End date must be after start date",
+    path: ["endDate"],
+  });
+
+export const insertRentalReviewSchema = createInsertSchema(rentalReviews)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    rating: z.coerce.number().int().min(1).max(5),
+    itemConditionRating: z.coerce.number().int().min(1).max(5).nullish(),
+    comment: z.string().max(1000).nullish(),
+  });
+
+export const conditionReportStages = ["check_out", "check_in"] as const;
+export type ConditionReportStage = (typeof conditionReportStages)[number];
+
+export const conditionChecklistItems = [
+  "stains",
+  "tears",
+  "missing_buttons",
+  "broken_zipper",
+  "odor",
+  "pilling",
+  "loose_seams",
+] as const;
+
+export const insertConditionReportSchema = createInsertSchema(rentalConditionReports)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    stage: z.enum(conditionReportStages),
+    issues: z.array(z.enum(conditionChecklistItems)),
+    notes: z.string().max(2000).nullish(),
+  });
+
+export const disputeKinds = ["damage", "late_return", "no_show", "not_as_described"] as const;
+export type DisputeKind = (typeof disputeKinds)[number];
+
+export const disputeStatuses = ["open", "responded", "resolved"] as const;
+export type DisputeStatus = (typeof disputeStatuses)[number];
+
+// The admin queue's `?status=` filter.
+export const disputeStatusListSchema = z.array(z.enum(disputeStatuses)).min(1);
+
+export const disputeOutcomes = ["claimant_favored", "respondent_favored", "split", "dismissed"] as const;
+
+export const insertRentalDisputeSchema = createInsertSchema(rentalDisputes)
+  .pick({
+    rentalId: true,
+    openedById: true,
+    respondentId: true,
+    kind: true,
+    description: true,
+    evidenceUrls: true,
+    checkOutReportId: true,
+    checkInReportId: true,
+  })
+  .extend({
+    kind: z.enum(disputeKinds),
+    description: z.string().trim().min(1, "Please describe the problem").max(2000),
+  });
+
+export const disputeResponseSchema = z.object({
+  response: z.string().trim().min(1, "Please write a response").max(2000),
+});
+
+export const resolveDisputeSchema = z.object({
+  outcome: z.enum(disputeOutcomes),
+  faultUserId: z.string().nullish(),
+  depositRefund: z.coerce.number().min(0).nullish(),
+  resolutionNotes: z.string().max(2000).nullish(),
+});
+
+export const waitlistStatuses = ["waiting", "notified", "requested", "left"] as const;
+export type WaitlistStatus = (typeof waitlistStatuses)[number];
+
+export const insertWaitlistEntrySchema = createInsertSchema(rentalWaitlistEntries)
+  .pick({
+    postId: true,
+    userId: true,
+    message: true,
+    autoRequest: true,
+  })
+  .extend(dateRangeFields)
+  .refine((data) => data.endDate > data.startDate, {
+    message: "End date must be after start date",
+    path: ["endDate"],
+  });
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
+  readAt: true,
   createdAt: true,
-  updatedAt: true,
-  likesCount: true,
-  commentsCount: true,
 });
 
-export const insertRentalRequestSchema = createInsertSchema(rentalRequests).omit({
+export const insertMentionSchema = createInsertSchema(mentions).omit({
   id: true,
   createdAt: true,
-  updatedAt: true,
 });
 
-export const insertCommentSchema = createInsertSchema(comments).omit({
+export const insertHashtagSchema = createInsertSchema(hashtags).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertMessageSchema = createInsertSchema(messages)
+  .omit({
+    id: true,
+    readAt: true,
+    createdAt: true,
+  })
+  .extend({
+    body: z.string().trim().min(1, "Message cannot be empty").max(2000),
+  });
+
+export const sendMessageSchema = insertMessageSchema.pick({ body: true });
+
+export const insertCommentSchema = createInsertSchema(comments)
+  .omit({
+    id: true,
+    editedAt: true,
+    deletedAt: true,
+    createdAt: true,
+  })
+  .extend({
+    content: z.string().trim().min(1, "Comment cannot be empty").max(1000),
+  });
+
+export const updateCommentSchema = insertCommentSchema.pick({ content: true });
+
+// How long after posting the author can still edit a comment.
+export const COMMENT_EDIT_WINDOW_MINUTES = 15;
+
+export const rentalStatuses = [
+  "pending",
+  "approved",
+  "declined",
+  "active",
+  "overdue",
+  "returned",
+  "completed",
+  "cancelled",
+] as const;
+
+export type RentalStatus = (typeof rentalStatuses)[number];
+export type RentalParty = "owner" | "requester";
+
+// Statuses during which the item is committed to a renter.
+export const bookedRentalStatuses: RentalStatus[] = ["approved", "active", "overdue", "returned"];
+
+// Rentals that show up in calendars: everything agreed, including past ones.
+export const calendarRentalStatuses: RentalStatus[] = [...bookedRentalStatuses, "completed"];
+
+// Allowed rental status changes and which party may make each one.
+// Statuses without an entry (declined, completed, cancelled) are final.
+// Only the late-return job moves a rental to overdue.
+export const rentalStatusTransitions: Record<RentalStatus, Partial<Record<RentalStatus, RentalParty>>> = {
+  pending: { approved: "owner", declined: "owner", cancelled: "requester" },
+  approved: { active: "owner", cancelled: "requester" },
+  active: { returned: "requester" },
+  overdue: { returned: "requester" },
+  returned: { completed: "owner" },
+  declined: {},
+  completed: {},
+  cancelled: {},
+};
+
+export const notificationTypes = [
+  "rental_due_soon",
+  "rental_due_today",
+  "rental_overdue",
+  "rental_waitlist_open",
+  "rental_waitlist_requested",
+  "mention",
+  "like",
+  "comment",
+  "reply",
+  "follow",
+  "rental_request",
+  "rental_status",
+  "badge_earned",
+  "post_published",
+] as const;
+export type NotificationType = (typeof notificationTypes)[number];
+
+export const updateRentalStatusSchema = z.object({
+  status: z.enum(rentalStatuses),
+});
+
 // Types
 export type UpsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 export type User = typeof users.$inferSelect;
 export type Post = typeof posts.$inferSelect;
 export type InsertPost = z.infer<typeof insertPostSchema>;
+export type UpdatePost = z.infer<typeof updatePostSchema>;
+export type PostImage = typeof postImages.$inferSelect;
+export type PostGallery = z.infer<typeof postGallerySchema>;
+// A processed upload: `url` is the largest JPEG, for places that need one src.
+export type UploadedImage = Pick<PostImage, "url" | "width" | "height" | "blurhash" | "variants">;
+// A photo to save: a new upload, or the id of one the post already has.
+export type PostImageInput = (UploadedImage | { id: string }) & { altText: string | null };
 export type RentalRequest = typeof rentalRequests.$inferSelect;
 export type InsertRentalRequest = z.infer<typeof insertRentalRequestSchema>;
+export type RentalBlockedDate = typeof rentalBlockedDates.$inferSelect;
+export type InsertRentalBlockedDate = z.infer<typeof insertRentalBlockedDateSchema>;
+export type RentalReview = typeof rentalReviews.$inferSelect;
+export type InsertRentalReview = z.infer<typeof insertRentalReviewSchema>;
+export type RentalConditionReport = typeof rentalConditionReports.$inferSelect;
+export type InsertRentalConditionReport = z.infer<typeof insertConditionReportSchema>;
+export type RentalDispute = typeof rentalDisputes.$inferSelect;
+export type InsertRentalDispute = z.infer<typeof insertRentalDisputeSchema>;
+export type RentalWaitlistEntry = typeof rentalWaitlistEntries.$inferSelect;
+export type InsertRentalWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Mention = typeof mentions.$inferSelect;
+export type InsertMention = z.infer<typeof insertMentionSchema>;
+export type Hashtag = typeof hashtags.$inferSelect;
+export type InsertHashtag = z.infer<typeof insertHashtagSchema>;
+export type Tag = typeof tags.$inferSelect;
+export type Conversation = typeof conversations.$inferSelect;
+export type Message = typeof messages.$inferSelect;
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Comment = typeof comments.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 export type Like = typeof likes.$inferSelect;
+export type Follow = typeof follows.$inferSelect;
+export type Mute = typeof mutes.$inferSelect;
 export type Badge = typeof badges.$inferSelect;
 export type UserBadge = typeof userBadges.$inferSelect;
 
 // Extended types for API responses
+export type Reputation = {
+  averageRating: number | null;
+  reviewCount: number;
+  disputesLost: number;
+};
+
+// A post with its photos, for lists that show drafts.
+export type PostWithImages = Post & { images: PostImage[] };
+
 export type PostWithUser = Post & {
-  user: User;
+  user: PublicUser;
+  images: PostImage[];
+  userReputation?: Reputation;
   isLiked?: boolean;
+  isFollowingAuthor?: boolean;
   userBadges?: UserBadge[];
 };
 
+// Uses of a tag (posts and comments) in the trending window and the window before it.
+export type TrendingTag = {
+  tag: string;
+  postsCount: number;
+  recentUses: number;
+  previousUses: number;
+  usesPerDay: number;
+};
+
+export type BusyRange = {
+  startDate: Date;
+  endDate: Date;
+  kind: "blocked" | "rented";
+};
+
+export type RentalQuote = {
+  days: number;
+  minDays: number;
+  dailyRate: string;
+  weeklyRate: string | null;
+  rentalFee: string;
+  cleaningFee: string;
+  securityDeposit: string;
+  totalPrice: string;
+};
+
+export type RentalRequestWithDetails = RentalRequest & {
+  requester: PublicUser;
+  owner: PublicUser;
+  post: Post;
+  ownerReviewed: boolean;
+  requesterReviewed: boolean;
+};
+
+export type RentalDisputeWithDetails = RentalDispute & {
+  rental: RentalRequest;
+  openedBy: User;
+  respondent: User;
+};
+
+export type RentalReviewWithReviewer = RentalReview & {
+  reviewer: PublicUser;
+};
+
 export type UserWithStats = User & {
   postsCount: number;
   followersCount: number;
   followingCount: number;
   badges: Badge[];
+  reputation: Reputation;
+  isFollowing?: boolean;
+  isMuted?: boolean;
 };
+
+// What other members may see about a user: everything but contact and role details.
+export type PublicUser = Omit<User, "email" | "isAdmin">;
+
+export type PublicProfile = Omit<UserWithStats, "email" | "isAdmin">;
+
+export type FollowListEntry = PublicUser & {
+  followedAt: Date | null;
+};
+
+export type CommentWithUser = Comment & {
+  user: PublicUser;
+};
+
+// `text` is the ready-to-show sentence, e.g. "Ana and 4 others liked your post".
+export type NotificationWithActor = Notification & {
+  actor: PublicUser | null;
+  actorCount: number;
+  text: string;
+};
+
+// An inbox row: the conversation seen from one participant.
+export type ConversationSummary = Conversation & {
+  otherUser: PublicUser;
+  lastMessage: Message | null;
+  unreadCount: number;
+};
+
+// One page of a cursor-paginated list. Pass `nextCursor` back as `cursor` to
+// get the next page; it is null on the last one.
+export type CursorPage<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+// A top-level comment with its replies, oldest reply first. Deleted comments
+// only appear when they still have replies, with their content blanked.
+export type CommentThread = CommentWithUser & {
+  replies: CommentWithUser[];
+};
+
+// Messages pushed to signed-in clients over the /ws socket.
+export type RealtimeEvent =
+  | { type: "notification"; notification: NotificationWithActor; unreadCount: number }
+  | { type: "postCounts"; postId: string; likesCount: number; commentsCount: number }
+  | { type: "rental"; rental: RentalRequest }
+  | { type: "message"; message: Message }
+  | { type: "messagesRead"; conversationId: string; readerId: string; readAt: Date };
+
+// Messages clients send: the posts currently on screen, replacing any earlier list.
+export type RealtimeClientMessage = { type: "subscribe"; postIds: string[] };